@@ -2,9 +2,10 @@ import { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ChatContainer } from './components/Chat/ChatContainer'
 import { ConversationList } from './components/Memory/ConversationList'
+import { MemoryPanel } from './components/Memory/MemoryPanel'
 import { memoryService } from './services/memory'
 import type { ConversationMemory } from './types'
-import { Plus, Menu, X, MessageSquare } from 'lucide-react'
+import { Plus, Menu, X, MessageSquare, Brain } from 'lucide-react'
 import { Button } from './components/UI/Button'
 
 function App() {
@@ -12,6 +13,7 @@ function App() {
   const [currentConversationId, setCurrentConversationId] = useState<string | undefined>(undefined)
   const [sidebarOpen, setSidebarOpen] = useState(window.innerWidth >= 1024) // Desktop open by default
   const [isCreatingNewConversation, setIsCreatingNewConversation] = useState(false)
+  const [memoryPanelOpen, setMemoryPanelOpen] = useState(false)
 
 
   // Load conversations on mount and set up periodic refresh
@@ -210,7 +212,16 @@ function App() {
             </div>
 
             {/* Sidebar Footer */}
-            <div className="p-4 border-t border-gray-200 bg-gray-50">
+            <div className="p-4 border-t border-gray-200 bg-gray-50 space-y-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setMemoryPanelOpen(true)}
+                className="w-full text-gray-600 hover:text-gray-900"
+              >
+                <Brain className="w-4 h-4 mr-2" />
+                What I remember
+              </Button>
               <p className="text-xs text-gray-500 text-center">
                 {conversations.length} conversations
               </p>
@@ -289,6 +300,12 @@ function App() {
           />
         </div>
       </div>
+
+      <AnimatePresence>
+        {memoryPanelOpen && (
+          <MemoryPanel onClose={() => setMemoryPanelOpen(false)} onTopicsSynced={refreshConversations} />
+        )}
+      </AnimatePresence>
     </div>
   )
 }
@@ -1,10 +1,11 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { MessageBubble } from './MessageBubble'
+import { SessionSettingsPanel } from './SessionSettingsPanel'
 import { VoiceMessageInput } from '../Voice/VoiceMessageInput'
 import { Button } from '../UI/Button'
 import { useChat } from '../../hooks/useChat'
-import { Phone, PhoneOff, Bot } from 'lucide-react'
+import { Phone, PhoneOff, Bot, SlidersHorizontal } from 'lucide-react'
 
 interface ChatContainerProps {
   conversationId?: string
@@ -14,6 +15,7 @@ interface ChatContainerProps {
 
 export const ChatContainer = ({ conversationId, onConversationUpdate, onNewConversation }: ChatContainerProps) => {
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const [showSettings, setShowSettings] = useState(false)
   const { 
     messages, 
     isLoading, 
@@ -25,8 +27,10 @@ export const ChatContainer = ({ conversationId, onConversationUpdate, onNewConve
     conversation,
     startSession, 
     sendTextMessage, 
+    interruptAgent,
     toggleVoiceRecording,
     toggleVoiceSettings,
+    updateSessionSettings,
     endSession,
     resetConversation,
     initializeConversation
@@ -131,10 +135,21 @@ export const ChatContainer = ({ conversationId, onConversationUpdate, onNewConve
           </div>
           
           {isConnected ? (
-            <Button onClick={handleEndChat} variant="secondary" size="sm" disabled={isLoading}>
-              <PhoneOff className="w-4 h-4 mr-2" />
-              End Chat
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button
+                onClick={() => setShowSettings(open => !open)}
+                variant="ghost"
+                size="sm"
+                title="Session settings"
+                className={showSettings ? 'bg-gray-100 text-gray-900' : ''}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </Button>
+              <Button onClick={handleEndChat} variant="secondary" size="sm" disabled={isLoading}>
+                <PhoneOff className="w-4 h-4 mr-2" />
+                End Chat
+              </Button>
+            </div>
           ) : (
             <Button onClick={handleStartChat} isLoading={isLoading} size="sm">
               <Phone className="w-4 h-4 mr-2" />
@@ -144,6 +159,16 @@ export const ChatContainer = ({ conversationId, onConversationUpdate, onNewConve
         </div>
       </motion.div>
 
+      <AnimatePresence>
+        {isConnected && showSettings && (
+          <SessionSettingsPanel
+            settings={session?.agentSettings}
+            onApply={updateSessionSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+      </AnimatePresence>
+
       <div className="flex-1 overflow-y-auto px-4 py-6">
         {messages.length === 0 && (
           <motion.div
@@ -220,6 +245,7 @@ export const ChatContainer = ({ conversationId, onConversationUpdate, onNewConve
       {isConnected && (
         <VoiceMessageInput 
           onSendMessage={sendTextMessage}
+          onInterrupt={interruptAgent}
           isRecording={isRecording}
           onToggleRecording={toggleVoiceRecording}
           currentTranscript={currentTranscript}
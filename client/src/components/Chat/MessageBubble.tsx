@@ -1,6 +1,6 @@
 import { motion } from 'framer-motion'
-import type { Message } from '../../types'
-import { Volume2, User, Bot, Clock } from 'lucide-react'
+import type { KbCitation, Message, ToolInvocation } from '../../types'
+import { Volume2, User, Bot, Clock, Square, Wrench, BookOpen } from 'lucide-react'
 
 interface MessageBubbleProps {
   message: Message
@@ -15,6 +15,15 @@ export const MessageBubble = ({ message, onPlayVoice, showTimestamp = false }: M
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
+  
+  const formatToolCall = (call: ToolInvocation) => {
+    const outcome = call.error ? `error: ${call.error}` : `result: ${JSON.stringify(call.result)}`
+    return `arguments: ${JSON.stringify(call.arguments)}\n${outcome}`
+  }
+  
+  const formatSource = (citation: KbCitation) => {
+    return citation.heading ? `${citation.title} › ${citation.heading}` : citation.title
+  }
 
   return (
     <motion.div
@@ -71,6 +80,52 @@ export const MessageBubble = ({ message, onPlayVoice, showTimestamp = false }: M
               {isVoice ? message.transcript || message.content : message.content}
             </p>
             
+            {/* Tools the agent ran for this answer */}
+            {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
+              <div className="mt-2 pt-2 border-t border-gray-100 space-y-1">
+                {message.toolCalls.map(call => (
+                  <details key={call.id} className="text-xs text-gray-500">
+                    <summary className="flex items-center space-x-1 cursor-pointer select-none">
+                      <Wrench className="w-3 h-3" />
+                      <span className="font-mono">{call.name}</span>
+                      <span className={call.error ? 'text-red-500' : ''}>
+                        · {call.error ? 'failed' : `${call.durationMs} ms`}
+                      </span>
+                    </summary>
+                    <pre className="mt-1 p-2 rounded bg-gray-50 font-mono whitespace-pre-wrap break-all">
+                      {formatToolCall(call)}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            )}
+            
+            {/* Knowledge-base passages the answer cited */}
+            {!isUser && message.citations && message.citations.length > 0 && (
+              <div className="mt-2 pt-2 border-t border-gray-100">
+                <div className="flex items-center space-x-1 mb-1 text-xs font-medium text-gray-500">
+                  <BookOpen className="w-3 h-3" />
+                  <span>Sources</span>
+                </div>
+                <ol className="space-y-1">
+                  {message.citations.map(citation => (
+                    <li key={citation.id} className="text-xs text-gray-500" title={citation.snippet}>
+                      <span className="font-mono mr-1">[{citation.marker}]</span>
+                      <span className="text-gray-700">{formatSource(citation)}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            
+            {/* Interrupted answer marker */}
+            {message.interrupted && (
+              <div className="mt-2 flex items-center space-x-1 text-xs text-gray-400">
+                <Square className="w-3 h-3" />
+                <span>Stopped</span>
+              </div>
+            )}
+            
             {/* Voice playback button */}
             {isVoice && message.audioUrl && (
               <button 
@@ -0,0 +1,143 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { X, RotateCcw } from 'lucide-react'
+import { Button } from '../UI/Button'
+import type { SessionSettings, SessionSettingsUpdate } from '../../types'
+
+interface SessionSettingsPanelProps {
+  settings?: SessionSettings
+  onApply: (update: SessionSettingsUpdate) => Promise<boolean>
+  onClose: () => void
+}
+
+// Shown while a setting has no override; these match the server's default agent
+const AGENT_DEFAULTS = { speed: 1.0, volume: 0.8, temperature: 0.7 }
+
+// CosyVoice v2 voices; any voice id the agent's TTS vendor accepts can be typed in
+const SUGGESTED_VOICES = ['longxiaochun_v2', 'longxiaoxia_v2', 'longwan_v2', 'longcheng_v2', 'longhua_v2']
+
+type Draft = Required<SessionSettings>
+
+function toDraft(settings: SessionSettings = {}): Draft {
+  return {
+    voice: settings.voice ?? '',
+    speed: settings.speed ?? AGENT_DEFAULTS.speed,
+    volume: settings.volume ?? AGENT_DEFAULTS.volume,
+    temperature: settings.temperature ?? AGENT_DEFAULTS.temperature,
+    systemPromptAddendum: settings.systemPromptAddendum ?? ''
+  }
+}
+
+export const SessionSettingsPanel = ({ settings, onApply, onClose }: SessionSettingsPanelProps) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(settings))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const initial = toDraft(settings)
+  const changedKeys = (Object.keys(draft) as (keyof Draft)[]).filter(key => draft[key] !== initial[key])
+
+  const update = <K extends keyof Draft>(key: K, value: Draft[K]) => {
+    setDraft(current => ({ ...current, [key]: value }))
+  }
+
+  const apply = async (patch: SessionSettingsUpdate) => {
+    setIsSaving(true)
+    try {
+      return await onApply(patch)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleApply = async () => {
+    // Only changed fields are sent; clearing the voice or addendum falls back to the agent's own
+    const patch: SessionSettingsUpdate = {}
+    for (const key of changedKeys) {
+      const value = draft[key]
+      Object.assign(patch, { [key]: typeof value === 'string' ? value.trim() || null : value })
+    }
+    await apply(patch)
+  }
+
+  const handleReset = async () => {
+    const reset = await apply({ voice: null, speed: null, volume: null, temperature: null, systemPromptAddendum: null })
+    if (reset) setDraft(toDraft())
+  }
+
+  const slider = (key: 'speed' | 'volume' | 'temperature', label: string, min: number, max: number, step: number) => (
+    <label className="block">
+      <div className="flex justify-between text-sm text-gray-700 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-gray-500">{draft[key].toFixed(2)}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={draft[key]}
+        onChange={(e) => update(key, parseFloat(e.target.value))}
+        className="w-full accent-blue-600"
+      />
+    </label>
+  )
+
+  return (
+    <motion.div
+      initial={{ height: 0, opacity: 0 }}
+      animate={{ height: 'auto', opacity: 1 }}
+      exit={{ height: 0, opacity: 0 }}
+      className="bg-white border-b border-gray-200 overflow-hidden"
+    >
+      <div className="px-6 py-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-900">Session settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close settings">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block text-sm text-gray-700 mb-1">Voice</span>
+            <input
+              list="session-voice-options"
+              value={draft.voice}
+              onChange={(e) => update('voice', e.target.value)}
+              placeholder="Agent default"
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500"
+            />
+            <datalist id="session-voice-options">
+              {SUGGESTED_VOICES.map(voice => <option key={voice} value={voice} />)}
+            </datalist>
+          </label>
+
+          {slider('temperature', 'Temperature', 0, 2, 0.05)}
+          {slider('speed', 'Speech speed', 0.5, 2, 0.05)}
+          {slider('volume', 'Volume', 0, 1, 0.05)}
+        </div>
+
+        <label className="block">
+          <span className="block text-sm text-gray-700 mb-1">Extra instructions</span>
+          <textarea
+            value={draft.systemPromptAddendum}
+            onChange={(e) => update('systemPromptAddendum', e.target.value)}
+            placeholder="Appended to the agent's system prompt, e.g. 'Answer in French.'"
+            maxLength={2000}
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 resize-none"
+          />
+        </label>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="ghost" size="sm" onClick={handleReset} disabled={isSaving}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          <Button size="sm" onClick={handleApply} isLoading={isSaving} disabled={changedKeys.length === 0}>
+            Apply
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
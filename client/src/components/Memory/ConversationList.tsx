@@ -62,6 +62,15 @@ export const ConversationList = ({
                   <p className="text-sm text-gray-600 line-clamp-2 mb-2">
                     {conv.metadata.lastAIResponse || 'No messages yet'}
                   </p>
+                  {conv.metadata.topics.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {conv.metadata.topics.slice(0, 4).map(topic => (
+                        <span key={topic} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-xs">
+                          {topic}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex items-center space-x-3 text-xs text-gray-500">
                     <span className="flex items-center">
                       <MessageSquare className="w-3 h-3 mr-1" />
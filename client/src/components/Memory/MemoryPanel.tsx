@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Brain, X, Pencil, Trash2, Check, Plus } from 'lucide-react'
+import { Button } from '../UI/Button'
+import { agentAPI } from '../../services/api'
+import { memoryService } from '../../services/memory'
+import type { MemoryEntry } from '../../types'
+
+interface MemoryPanelProps {
+  onClose: () => void
+  onTopicsSynced?: () => void
+}
+
+export const MemoryPanel = ({ onClose, onTopicsSynced }: MemoryPanelProps) => {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [memories, setMemories] = useState<MemoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newFact, setNewFact] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState('')
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const identity = await agentAPI.getIdentity()
+      const resolvedUserId = identity.userId || memoryService.getLocalUserId()
+      const entries = await agentAPI.getMemories(resolvedUserId)
+      setUserId(resolvedUserId)
+      setMemories(entries)
+      memoryService.syncTopics(entries)
+      onTopicsSynced?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load memories')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [onTopicsSynced])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    }
+  }
+
+  const handleAdd = () => run(async () => {
+    if (!userId || !newFact.trim()) return
+    const memory = await agentAPI.addMemory(userId, newFact)
+    setMemories(current => [memory, ...current])
+    setNewFact('')
+  })
+
+  const handleSaveEdit = (id: string) => run(async () => {
+    if (!userId || !editText.trim()) return
+    const memory = await agentAPI.updateMemory(userId, id, editText)
+    setMemories(current => current.map(entry => entry.id === id ? memory : entry))
+    setEditingId(null)
+  })
+
+  const handleDelete = (id: string) => run(async () => {
+    if (!userId) return
+    await agentAPI.deleteMemory(userId, id)
+    setMemories(current => current.filter(entry => entry.id !== id))
+  })
+
+  const handleClear = () => run(async () => {
+    if (!userId || !window.confirm('Forget everything the assistant remembers about you?')) return
+    await agentAPI.clearMemories(userId)
+    setMemories([])
+  })
+
+  const renderEntry = (entry: MemoryEntry) => (
+    <li key={entry.id} className="group p-3 rounded-lg border border-gray-200 bg-white">
+      {editingId === entry.id ? (
+        <div className="space-y-2">
+          <textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            maxLength={500}
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 resize-none"
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+            <Button size="sm" onClick={() => handleSaveEdit(entry.id)} disabled={!editText.trim()}>
+              <Check className="w-4 h-4 mr-1" />
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between space-x-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-800">{entry.text}</p>
+            <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500">
+              <span>{entry.source === 'user' ? 'Added by you' : 'Learned'}</span>
+              <span>· {new Date(entry.updatedAt).toLocaleDateString()}</span>
+              {entry.topics.map(topic => (
+                <span key={topic} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">{topic}</span>
+              ))}
+            </div>
+          </div>
+          <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => { setEditingId(entry.id); setEditText(entry.text) }}
+              className="p-1 text-gray-400 hover:text-blue-600"
+              title="Edit"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDelete(entry.id)} className="p-1 text-gray-400 hover:text-red-600" title="Forget">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  )
+
+  const facts = memories.filter(entry => entry.kind === 'fact')
+  const summaries = memories.filter(entry => entry.kind === 'summary')
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="bg-gray-50 rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="font-semibold text-gray-900 flex items-center">
+            <Brain className="w-5 h-5 mr-2" />
+            What I remember
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 flex space-x-2">
+          <input
+            value={newFact}
+            onChange={(e) => setNewFact(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd() }}
+            placeholder="Tell me something to remember, e.g. 'I'm vegetarian'"
+            maxLength={500}
+            className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500"
+          />
+          <Button size="sm" onClick={handleAdd} disabled={!newFact.trim() || !userId}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500 text-center py-8">Loading…</p>
+          ) : memories.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Nothing yet. Facts and summaries are saved when a conversation ends.
+            </p>
+          ) : (
+            <>
+              {facts.length > 0 && (
+                <section>
+                  <h3 className="text-xs font-semibold uppercase text-gray-500 mb-2">About you</h3>
+                  <ul className="space-y-2">{facts.map(renderEntry)}</ul>
+                </section>
+              )}
+              {summaries.length > 0 && (
+                <section>
+                  <h3 className="text-xs font-semibold uppercase text-gray-500 mb-2">Past conversations</h3>
+                  <ul className="space-y-2">{summaries.map(renderEntry)}</ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        {memories.length > 0 && (
+          <div className="p-4 border-t border-gray-200 flex justify-end">
+            <Button variant="ghost" size="sm" onClick={handleClear} className="text-red-600 hover:text-red-700">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Forget everything
+            </Button>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  )
+}
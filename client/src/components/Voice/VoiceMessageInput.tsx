@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Mic, MicOff, Volume2, VolumeX } from 'lucide-react'
+import { Send, Square, Mic, MicOff, Volume2, VolumeX } from 'lucide-react'
 import { Button } from '../UI/Button'
 
 interface VoiceMessageInputProps {
   onSendMessage: (content: string) => Promise<void>
+  onInterrupt?: () => Promise<void>
   isRecording: boolean
   onToggleRecording: () => void
   currentTranscript: string
@@ -16,6 +17,7 @@ interface VoiceMessageInputProps {
 
 export const VoiceMessageInput = ({ 
   onSendMessage, 
+  onInterrupt,
   isRecording, 
   onToggleRecording,
   currentTranscript,
@@ -27,6 +29,7 @@ export const VoiceMessageInput = ({
   const [message, setMessage] = useState('')
   const [isFocused, setIsFocused] = useState(false)
   const [isSending, setIsSending] = useState(false)
+  const [isStopping, setIsStopping] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
   // Auto-resize textarea
@@ -59,6 +62,17 @@ export const VoiceMessageInput = ({
     }
   }
 
+  const handleInterrupt = async () => {
+    if (!onInterrupt || isStopping) return
+    
+    setIsStopping(true)
+    try {
+      await onInterrupt()
+    } finally {
+      setIsStopping(false)
+    }
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey && !isSending) {
       e.preventDefault()
@@ -68,6 +82,7 @@ export const VoiceMessageInput = ({
 
   const isDisabled = !isConnected || agentStatus === 'thinking' || agentStatus === 'speaking'
   const isVoiceDisabled = isDisabled || !voiceEnabled
+  const canInterrupt = isConnected && !!onInterrupt && (agentStatus === 'thinking' || agentStatus === 'speaking')
 
   const getPlaceholderText = () => {
     if (!isConnected) return "Connect to start chatting..."
@@ -197,16 +212,29 @@ export const VoiceMessageInput = ({
             </motion.div>
           </Button>
 
-          {/* Send Button */}
-          <Button
-            type="submit"
-            disabled={!message.trim() || isDisabled || isSending}
-            size="md"
-            className="bg-blue-600 hover:bg-blue-700 text-white px-6 disabled:opacity-50 disabled:cursor-not-allowed min-w-[60px]"
-            isLoading={isSending}
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {/* Send Button, replaced by Stop while the agent is answering */}
+          {canInterrupt ? (
+            <Button
+              type="button"
+              onClick={handleInterrupt}
+              size="md"
+              className="bg-red-600 hover:bg-red-700 text-white px-6 disabled:opacity-50 min-w-[60px]"
+              isLoading={isStopping}
+              title="Stop the response"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!message.trim() || isDisabled || isSending}
+              size="md"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 disabled:opacity-50 disabled:cursor-not-allowed min-w-[60px]"
+              isLoading={isSending}
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       </form>
 
@@ -4,12 +4,16 @@ const configSchema = z.object({
   ZEGO_APP_ID: z.string().min(1, 'ZEGO App ID is required'),
   ZEGO_SERVER: z.string().url('Valid ZEGO server URL required'),
   API_BASE_URL: z.string().url('Valid API base URL required'),
+  API_KEY: z.string().optional(),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error', 'silent']).optional(),
 })
 
 const rawConfig = {
   ZEGO_APP_ID: import.meta.env.VITE_ZEGO_APP_ID,
   ZEGO_SERVER: import.meta.env.VITE_ZEGO_SERVER,
   API_BASE_URL: import.meta.env.VITE_API_BASE_URL,
+  API_KEY: import.meta.env.VITE_API_KEY || undefined,
+  LOG_LEVEL: import.meta.env.VITE_LOG_LEVEL || undefined,
 }
 
 export const config = configSchema.parse(rawConfig)
@@ -18,4 +22,6 @@ export const STORAGE_KEYS = {
   CONVERSATIONS: 'ai_conversations',
   USER_PREFERENCES: 'ai_user_preferences',
   SESSION_HISTORY: 'ai_session_history',
+  USER_ID: 'ai_user_id',
+  ACTIVE_INSTANCE: 'ai_active_instance',
 } as const
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { useCallback, useRef, useEffect, useReducer } from 'react'
-import type { Message, ChatSession, ConversationMemory, VoiceSettings } from '../types'
+import type { Message, ChatSession, ConversationMemory, VoiceSettings, SessionSettingsUpdate } from '../types'
 import { ZegoService } from '../services/zego'
 import { agentAPI } from '../services/api'
 import { memoryService } from '../services/memory'
@@ -111,6 +111,11 @@ export const useChat = () => {
   const cleanupFunctions = useRef<(() => void)[]>([])
   const currentConversationRef = useRef<string | null>(null)
   const streamingMessages = useRef(new Map<string, string>())
+  // Answers the user stopped; late chunks still in flight for them are dropped
+  const interruptedMessageIds = useRef(new Set<string>())
+  // Tool calls already shown on an answer, so each is attached once
+  const attachedToolCallIds = useRef(new Set<string>())
+  const attachedCitationIds = useRef(new Set<string>())
 
   const defaultVoiceSettings: VoiceSettings = {
     isEnabled: true,
@@ -125,6 +130,9 @@ export const useChat = () => {
     processedMessageIds.current.clear()
     messageHandlerSetup.current = false
     streamingMessages.current.clear()
+    interruptedMessageIds.current.clear()
+    attachedToolCallIds.current.clear()
+    attachedCitationIds.current.clear()
   }, [])
 
   const addMessageSafely = useCallback((message: Message, conversationId: string) => {
@@ -150,6 +158,7 @@ export const useChat = () => {
       dispatch({ type: 'SET_MESSAGES', payload: [...conv.messages] })
       processedMessageIds.current.clear()
       streamingMessages.current.clear()
+      interruptedMessageIds.current.clear()
       
       conv.messages.forEach(msg => {
         processedMessageIds.current.add(msg.id)
@@ -171,7 +180,39 @@ export const useChat = () => {
     currentConversationRef.current = null
   }, [cleanup])
 
-  const setupMessageHandlers = useCallback((conv: ConversationMemory) => {
+  // Tool calls happen before the answer streams and citations are recorded as it completes,
+  // so once it has ended both are on the server
+  const attachAnswerDetails = useCallback(async (agentInstanceId: string, conversationId: string, message: Message) => {
+    const [toolCalls, citations] = await Promise.all([
+      agentAPI.getToolCalls(agentInstanceId)
+        .then(invocations => invocations.filter(invocation => !attachedToolCallIds.current.has(invocation.id)))
+        .catch(error => {
+          console.warn('Failed to load tool calls:', error)
+          return []
+        }),
+      // Only answers with [n] markers used the knowledge base
+      /\[\d+\]/.test(message.content)
+        ? agentAPI.getCitations(agentInstanceId)
+          .then(entries => entries.filter(citation => !attachedCitationIds.current.has(citation.id)))
+          .catch(error => {
+            console.warn('Failed to load citations:', error)
+            return []
+          })
+        : Promise.resolve([])
+    ])
+    if (toolCalls.length === 0 && citations.length === 0) return
+    
+    toolCalls.forEach(invocation => attachedToolCallIds.current.add(invocation.id))
+    citations.forEach(citation => attachedCitationIds.current.add(citation.id))
+    const updates: Partial<Message> = {
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(citations.length > 0 && { citations })
+    }
+    dispatch({ type: 'UPDATE_MESSAGE', payload: { id: message.id, updates } })
+    memoryService.addMessage(conversationId, { ...message, ...updates })
+  }, [])
+
+  const setupMessageHandlers = useCallback((conv: ConversationMemory, agentInstanceId: string) => {
     if (messageHandlerSetup.current) {
       console.log('Message handlers already setup')
       return
@@ -217,6 +258,7 @@ export const useChat = () => {
         } else if (Cmd === 4) {
           const { Text: content, MessageId, EndFlag } = msgData
           if (!content || !MessageId) return
+          if (interruptedMessageIds.current.has(MessageId)) return
 
           if (EndFlag) {
             const currentStreaming = streamingMessages.current.get(MessageId) || ''
@@ -242,6 +284,7 @@ export const useChat = () => {
                 type: 'text'
               }
               memoryService.addMessage(conv.id, finalMessage)
+              attachAnswerDetails(agentInstanceId, conv.id, finalMessage)
             } catch (error) {
               console.error('Failed to save final message to memory:', error)
             }
@@ -283,7 +326,7 @@ export const useChat = () => {
     cleanupFunctions.current.push(() => {
       zegoService.current.onRoomMessage(() => {})
     })
-  }, [addMessageSafely])
+  }, [addMessageSafely, attachAnswerDetails])
 
   const startSession = useCallback(async (existingConversationId?: string): Promise<boolean> => {
     if (state.isLoading || state.isConnected) {
@@ -301,8 +344,18 @@ export const useChat = () => {
         await new Promise(resolve => setTimeout(resolve, 1000))
       }
 
+      // A reload or crash never reached endSession; the instance it left would hold a concurrency slot
+      const orphanedInstanceId = memoryService.getActiveInstance()
+      if (orphanedInstanceId) {
+        await agentAPI.stopSession(orphanedInstanceId)
+          .catch(error => console.warn('Failed to stop previous session:', error))
+        memoryService.setActiveInstance(null)
+      }
+
       const roomId = `room_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`
-      const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`
+      // When the credential is bound to a user the server only accepts that user id
+      const identity = await agentAPI.getIdentity()
+      const userId = identity.userId || memoryService.getLocalUserId()
 
       console.log('Initializing ZEGO service...')
       await zegoService.current.initialize()
@@ -312,10 +365,18 @@ export const useChat = () => {
       if (!joinResult) throw new Error('Failed to join ZEGO room')
 
       console.log('Starting AI agent session...')
-      const result = await agentAPI.startSession(roomId, userId)
+      const history = existingConversationId ? memoryService.getAgentHistory(existingConversationId) : []
+      const result = await agentAPI.startSession(roomId, userId, undefined, history)
+      memoryService.setActiveInstance(result.agentInstanceId)
       
       const conv = initializeConversation(existingConversationId)
       if (!conv) throw new Error('Failed to initialize conversation')
+      memoryService.recordAgentInstance(conv.id, result.agentInstanceId)
+      
+      // Earlier sessions have been summarized by now; pull their topics into the conversation list
+      agentAPI.getMemories(userId)
+        .then(memories => memoryService.syncTopics(memories))
+        .catch(error => console.warn('Failed to sync conversation topics:', error))
       
       const newSession: ChatSession = {
         roomId,
@@ -329,7 +390,7 @@ export const useChat = () => {
       dispatch({ type: 'SET_SESSION', payload: newSession })
       dispatch({ type: 'SET_CONNECTED', payload: true })
       
-      setupMessageHandlers(conv)
+      setupMessageHandlers(conv, result.agentInstanceId)
       
       console.log('Session started successfully')
       return true
@@ -374,6 +435,44 @@ export const useChat = () => {
     }
   }, [state.session, state.conversation, addMessageSafely])
 
+  const interruptAgent = useCallback(async () => {
+    if (!state.session?.agentInstanceId || !state.conversation) return
+    
+    try {
+      await agentAPI.interrupt(state.session.agentInstanceId)
+    } catch (error) {
+      console.error('Failed to interrupt agent:', error)
+      dispatch({ type: 'SET_ERROR', payload: 'Failed to stop the agent' })
+      return
+    }
+    
+    const conversationId = state.conversation.id
+    streamingMessages.current.forEach((content, messageId) => {
+      interruptedMessageIds.current.add(messageId)
+      dispatch({ type: 'UPDATE_MESSAGE', payload: {
+        id: messageId,
+        updates: { content, isStreaming: false, interrupted: true }
+      }})
+      
+      try {
+        const partialMessage: Message = {
+          id: messageId,
+          content,
+          sender: 'ai',
+          timestamp: Date.now(),
+          type: 'text',
+          interrupted: true
+        }
+        memoryService.addMessage(conversationId, partialMessage)
+      } catch (error) {
+        console.error('Failed to save interrupted message to memory:', error)
+      }
+    })
+    
+    streamingMessages.current.clear()
+    dispatch({ type: 'SET_AGENT_STATUS', payload: 'idle' })
+  }, [state.session, state.conversation])
+
   const toggleVoiceRecording = useCallback(async () => {
     if (!state.isConnected) return
     
@@ -409,6 +508,33 @@ export const useChat = () => {
     }
   }, [state.session])
 
+  // Applies settings to the live agent; the local voice settings mirror what the server accepted
+  const updateSessionSettings = useCallback(async (update: SessionSettingsUpdate): Promise<boolean> => {
+    if (!state.session?.agentInstanceId) {
+      dispatch({ type: 'SET_ERROR', payload: 'No active session' })
+      return false
+    }
+    
+    try {
+      const settings = await agentAPI.updateSession(state.session.agentInstanceId, update)
+      dispatch({ type: 'SET_SESSION', payload: {
+        ...state.session,
+        agentSettings: settings,
+        voiceSettings: {
+          ...state.session.voiceSettings,
+          speechRate: settings.speed ?? 1.0,
+          speechVolume: settings.volume,
+          preferredVoice: settings.voice
+        }
+      }})
+      return true
+    } catch (error) {
+      console.error('Failed to update session settings:', error)
+      dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error.message : 'Failed to update session settings' })
+      return false
+    }
+  }, [state.session])
+
   const endSession = useCallback(async () => {
     if (!state.session && !state.isConnected) return
     
@@ -422,6 +548,7 @@ export const useChat = () => {
       
       if (state.session?.agentInstanceId) {
         await agentAPI.stopSession(state.session.agentInstanceId)
+        memoryService.setActiveInstance(null)
       }
       
       await zegoService.current.leaveRoom()
@@ -465,6 +592,16 @@ export const useChat = () => {
     handleConversationChange()
   }, [state.conversation?.id])
 
+  // Closing or reloading the tab skips endSession, so stop the agent on the way out
+  useEffect(() => {
+    const agentInstanceId = state.session?.agentInstanceId
+    if (!agentInstanceId) return
+
+    const handleUnload = () => agentAPI.stopSessionOnUnload(agentInstanceId)
+    window.addEventListener('beforeunload', handleUnload)
+    return () => window.removeEventListener('beforeunload', handleUnload)
+  }, [state.session?.agentInstanceId])
+
   useEffect(() => {
     return () => {
       if (state.session?.isActive || state.isConnected) {
@@ -478,8 +615,10 @@ export const useChat = () => {
     ...state,
     startSession,
     sendTextMessage,
+    interruptAgent,
     toggleVoiceRecording,
     toggleVoiceSettings,
+    updateSessionSettings,
     endSession,
     initializeConversation,
     resetConversation,
@@ -1,5 +1,7 @@
 import axios from 'axios'
 import { config } from '../config'
+import { logger } from '../utils/logger'
+import type { HistoryMessage, KbCitation, MemoryEntry, SessionSettings, SessionSettingsUpdate, ToolInvocation } from '../types'
 
 const api = axios.create({
   baseURL: config.API_BASE_URL,
@@ -9,50 +11,82 @@ const api = axios.create({
   }
 })
 
-api.interceptors.request.use(
-  (config) => {
-    console.log('🌐 API Request:', config.method?.toUpperCase(), config.url)
-    if (config.data && config.method !== 'get') {
-      console.log('📤 Request Data:', config.data)
-    }
-    return config
-  },
-  (error) => {
-    console.error('❌ API Request Error:', error)
-    return Promise.reject(error)
+// Credential sent as a Bearer token: a static API key from config, or a session token/JWT
+// handed to the page by the embedding application via setAuthToken().
+let authToken: string | null = config.API_KEY || null
+
+export function setAuthToken(token: string | null): void {
+  authToken = token
+}
+
+api.interceptors.request.use((config) => {
+  if (authToken) {
+    config.headers.Authorization = `Bearer ${authToken}`
   }
-)
+  logger.debug('🌐 API Request:', config.method?.toUpperCase(), config.url)
+  return config
+})
 
+// Bodies are never logged: they carry message text and credentials
 api.interceptors.response.use(
   (response) => {
-    console.log('✅ API Response:', response.status, response.config.url)
-    if (response.data) {
-      console.log('📥 Response Data:', response.data)
-    }
+    logger.debug('✅ API Response:', response.status, response.config.url, response.headers['x-request-id'])
     return response
   },
   (error) => {
-    console.error('❌ API Response Error:', {
+    logger.warn('❌ API Response Error:', {
       status: error.response?.status,
-      statusText: error.response?.statusText,
-      data: error.response?.data,
       url: error.config?.url,
-      method: error.config?.method
+      method: error.config?.method,
+      requestId: error.response?.headers?.['x-request-id']
     })
     return Promise.reject(error)
   }
 )
 
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`
+  const minutes = Math.ceil(seconds / 60)
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`
+  const hours = Math.ceil(minutes / 60)
+  return `${hours} hour${hours === 1 ? '' : 's'}`
+}
+
+// Quota rejections (429) carry the server's reason and when to retry; everything else keeps its error text.
+function describeError(error: unknown, fallback: string): string {
+  if (!axios.isAxiosError(error)) {
+    return error instanceof Error && error.message ? error.message : fallback
+  }
+
+  const data = error.response?.data
+  if (error.response?.status === 429) {
+    const retryAfter = Number(data?.retryAfter ?? error.response.headers['retry-after'])
+    const reason = data?.error || 'Usage limit reached.'
+    return Number.isFinite(retryAfter) && retryAfter > 0
+      ? `${reason} Try again in ${formatWait(retryAfter)}.`
+      : reason
+  }
+  return data?.error || error.message || fallback
+}
+
 export const agentAPI = {
-  async startSession(roomId: string, userId: string): Promise<{ agentInstanceId: string }> {
+  // `history` resumes a saved conversation: the agent starts with those turns as context.
+  async startSession(
+    roomId: string,
+    userId: string,
+    agentId?: string,
+    history: HistoryMessage[] = []
+  ): Promise<{ agentInstanceId: string }> {
     try {
       const requestData = {
         room_id: roomId,
         user_id: userId,
         user_stream_id: `${userId}_stream`,
+        ...(agentId && { agent_id: agentId }),
+        ...(history.length > 0 && { messages: history }),
       }
       
-      console.log('🚀 Starting session with data:', requestData)
+      logger.debug('🚀 Starting session:', { roomId, userId, agentId, historyMessages: history.length })
       
       const response = await api.post('/api/start', requestData)
       
@@ -64,14 +98,17 @@ export const agentAPI = {
         throw new Error('No agent instance ID returned')
       }
       
-      console.log('✅ Session started successfully:', response.data.agentInstanceId)
+      logger.debug('✅ Session started successfully:', response.data.agentInstanceId, {
+        historyMessages: response.data.historyMessages,
+        historyTruncated: response.data.historyTruncated
+      })
       
       return {
         agentInstanceId: response.data.agentInstanceId
       }
     } catch (error: any) {
-      console.error('❌ Start session failed:', error.response?.data || error.message)
-      throw new Error(error.response?.data?.error || error.message || 'Failed to start session')
+      logger.error('❌ Start session failed:', error.response?.data || error.message)
+      throw new Error(describeError(error, 'Failed to start session'))
     }
   },
 
@@ -90,11 +127,7 @@ export const agentAPI = {
         message: message.trim(),
       }
       
-      console.log('💬 Sending message:', {
-        agentInstanceId,
-        messageLength: message.length,
-        messagePreview: message.substring(0, 50) + (message.length > 50 ? '...' : '')
-      })
+      logger.debug('💬 Sending message:', { agentInstanceId, messageLength: message.length })
       
       const response = await api.post('/api/send-message', requestData)
       
@@ -102,16 +135,147 @@ export const agentAPI = {
         throw new Error(response.data?.error || 'Message send failed')
       }
       
-      console.log('✅ Message sent successfully')
+      logger.debug('✅ Message sent successfully')
     } catch (error: any) {
-      console.error('❌ Send message failed:', error.response?.data || error.message)
-      throw new Error(error.response?.data?.error || error.message || 'Failed to send message')
+      logger.error('❌ Send message failed:', error.response?.data || error.message)
+      throw new Error(describeError(error, 'Failed to send message'))
+    }
+  },
+
+  // Has the agent say `text` verbatim, skipping the LLM. `queue` waits for current speech to finish.
+  async speak(
+    agentInstanceId: string,
+    text: string,
+    options: { mode?: 'interrupt' | 'queue'; addToHistory?: boolean } = {}
+  ): Promise<void> {
+    if (!agentInstanceId) {
+      throw new Error('Agent instance ID is required')
+    }
+
+    if (!text || !text.trim()) {
+      throw new Error('Text is required')
+    }
+
+    try {
+      const requestData = {
+        text: text.trim(),
+        mode: options.mode ?? 'interrupt',
+        add_to_history: options.addToHistory ?? true,
+      }
+
+      logger.debug('🔊 Speaking text:', { agentInstanceId, textLength: text.length, mode: requestData.mode })
+
+      const response = await api.post(`/api/sessions/${encodeURIComponent(agentInstanceId)}/speak`, requestData)
+
+      if (!response.data || !response.data.success) {
+        throw new Error(response.data?.error || 'Speak failed')
+      }
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to speak text')
+      logger.error('❌ Speak failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  // Cuts off the agent's current answer (speech and LLM generation) without ending the session.
+  async interrupt(agentInstanceId: string): Promise<void> {
+    if (!agentInstanceId) {
+      throw new Error('Agent instance ID is required')
+    }
+
+    try {
+      logger.debug('✋ Interrupting agent:', agentInstanceId)
+
+      const response = await api.post(`/api/sessions/${encodeURIComponent(agentInstanceId)}/interrupt`)
+
+      if (!response.data || !response.data.success) {
+        throw new Error(response.data?.error || 'Interrupt failed')
+      }
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to interrupt agent')
+      logger.error('❌ Interrupt failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  // Tools the agent ran in this session, oldest first.
+  async getToolCalls(agentInstanceId: string): Promise<ToolInvocation[]> {
+    if (!agentInstanceId) {
+      throw new Error('Agent instance ID is required')
+    }
+
+    try {
+      const response = await api.get(`/api/sessions/${encodeURIComponent(agentInstanceId)}/tool-calls`)
+      return response.data?.toolCalls ?? []
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to load tool calls')
+      logger.error('❌ Get tool calls failed:', message)
+      throw new Error(message)
     }
   },
 
+  async getCitations(agentInstanceId: string): Promise<KbCitation[]> {
+    if (!agentInstanceId) {
+      throw new Error('Agent instance ID is required')
+    }
+
+    try {
+      const response = await api.get(`/api/sessions/${encodeURIComponent(agentInstanceId)}/citations`)
+      return response.data?.citations ?? []
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to load citations')
+      logger.error('❌ Get citations failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  // Changes voice, speed, volume, temperature or the prompt addendum of a running session.
+  async updateSession(agentInstanceId: string, update: SessionSettingsUpdate): Promise<SessionSettings> {
+    if (!agentInstanceId) {
+      throw new Error('Agent instance ID is required')
+    }
+
+    try {
+      const requestData = {
+        voice: update.voice,
+        speed: update.speed,
+        volume: update.volume,
+        temperature: update.temperature,
+        system_prompt_addendum: update.systemPromptAddendum,
+      }
+
+      logger.debug('🎛️ Updating session settings:', { agentInstanceId, fields: Object.keys(update) })
+
+      const response = await api.patch(`/api/sessions/${encodeURIComponent(agentInstanceId)}`, requestData)
+
+      if (!response.data || !response.data.success) {
+        throw new Error(response.data?.error || 'Session update failed')
+      }
+
+      return response.data.settings
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to update session settings')
+      logger.error('❌ Update session failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  // Stops a session as the page unloads; a keepalive request outlives the page, unlike axios' XHR
+  stopSessionOnUnload(agentInstanceId: string): void {
+    fetch(`${config.API_BASE_URL.replace(/\/$/, '')}/api/stop`, {
+      method: 'POST',
+      keepalive: true,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authToken && { Authorization: `Bearer ${authToken}` })
+      },
+      body: JSON.stringify({ agent_instance_id: agentInstanceId })
+    }).catch(() => {})
+  },
+
   async stopSession(agentInstanceId: string): Promise<void> {
     if (!agentInstanceId) {
-      console.warn('⚠️ No agent instance ID provided for stop session')
+      logger.warn('⚠️ No agent instance ID provided for stop session')
       return
     }
 
@@ -120,55 +284,121 @@ export const agentAPI = {
         agent_instance_id: agentInstanceId,
       }
       
-      console.log('🛑 Stopping session:', agentInstanceId)
+      logger.debug('🛑 Stopping session:', agentInstanceId)
       
       const response = await api.post('/api/stop', requestData)
       
       if (!response.data || !response.data.success) {
-        console.warn('⚠️ Session stop returned non-success:', response.data)
+        logger.warn('⚠️ Session stop returned non-success:', response.data)
       } else {
-        console.log('✅ Session stopped successfully')
+        logger.debug('✅ Session stopped successfully')
       }
     } catch (error: any) {
-      console.error('❌ Stop session failed:', error.response?.data || error.message)
+      logger.error('❌ Stop session failed:', error.response?.data || error.message)
       throw new Error(error.response?.data?.error || error.message || 'Failed to stop session')
     }
   },
 
-  async getToken(userId: string): Promise<{ token: string }> {
-    if (!userId) {
-      throw new Error('User ID is required')
+  async getToken(userId: string, roomId: string): Promise<{ token: string; expiresAt: number }> {
+    if (!userId || !roomId) {
+      throw new Error('User ID and room ID are required')
     }
 
     try {
-      console.log('🔑 Getting token for user:', userId)
+      logger.debug('🔑 Getting token for user:', userId, 'room:', roomId)
       
-      const response = await api.get(`/api/token?user_id=${encodeURIComponent(userId)}`)
+      const response = await api.get('/api/token', {
+        params: { user_id: userId, room_id: roomId }
+      })
       
       if (!response.data || !response.data.token) {
         throw new Error('No token returned')
       }
       
-      console.log('✅ Token received successfully')
+      logger.debug('✅ Token received successfully')
       
-      return { token: response.data.token }
+      return { token: response.data.token, expiresAt: response.data.expiresAt }
     } catch (error: any) {
-      console.error('❌ Get token failed:', error.response?.data || error.message)
+      logger.error('❌ Get token failed:', error.response?.data || error.message)
       throw new Error(error.response?.data?.error || error.message || 'Failed to get token')
     }
   },
 
+  async getMemories(userId: string): Promise<MemoryEntry[]> {
+    try {
+      const response = await api.get('/api/memories', { params: { user_id: userId } })
+      return response.data.memories || []
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to load memories')
+      logger.error('❌ Get memories failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  async addMemory(userId: string, text: string): Promise<MemoryEntry> {
+    try {
+      const response = await api.post('/api/memories', { user_id: userId, text: text.trim() })
+      return response.data.memory
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to save memory')
+      logger.error('❌ Add memory failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  async updateMemory(userId: string, memoryId: string, text: string): Promise<MemoryEntry> {
+    try {
+      const response = await api.put(`/api/memories/${encodeURIComponent(memoryId)}`, { user_id: userId, text: text.trim() })
+      return response.data.memory
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to update memory')
+      logger.error('❌ Update memory failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  async deleteMemory(userId: string, memoryId: string): Promise<void> {
+    try {
+      await api.delete(`/api/memories/${encodeURIComponent(memoryId)}`, { params: { user_id: userId } })
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to delete memory')
+      logger.error('❌ Delete memory failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  async clearMemories(userId: string): Promise<void> {
+    try {
+      await api.delete('/api/memories', { params: { user_id: userId } })
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to clear memories')
+      logger.error('❌ Clear memories failed:', message)
+      throw new Error(message)
+    }
+  },
+
+  async getIdentity(): Promise<{ method: string; subject: string; userId: string | null }> {
+    try {
+      const response = await api.get('/api/auth/me')
+      return response.data
+    } catch (error: unknown) {
+      const message = describeError(error, 'Failed to get identity')
+      logger.error('❌ Get identity failed:', message)
+      throw new Error(message)
+    }
+  },
+
   async healthCheck(): Promise<{ status: string }> {
     try {
-      console.log('🏥 Checking backend health')
+      logger.debug('🏥 Checking backend health')
       
       const response = await api.get('/health')
       
-      console.log('✅ Backend health check successful:', response.data)
+      logger.debug('✅ Backend health check successful:', response.data)
       
       return response.data
     } catch (error: any) {
-      console.error('❌ Backend health check failed:', error.response?.data || error.message)
+      logger.error('❌ Backend health check failed:', error.response?.data || error.message)
       throw new Error(error.response?.data?.error || error.message || 'Backend health check failed')
     }
   }
@@ -1,4 +1,4 @@
-import type { ConversationMemory, Message } from '../types'
+import type { ConversationMemory, HistoryMessage, MemoryEntry, Message } from '../types'
 import { STORAGE_KEYS } from '../config'
 
 class MemoryService {
@@ -113,6 +113,20 @@ class MemoryService {
     return this.conversations.get(conversationId) || null
   }
 
+  // Stored messages as agent context; the server trims them to its token budget
+  getAgentHistory(conversationId: string): HistoryMessage[] {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) return []
+
+    return conversation.messages
+      .filter(message => !message.isStreaming)
+      .map(message => ({
+        role: message.sender === 'user' ? 'user' as const : 'assistant' as const,
+        content: (message.type === 'voice' ? message.transcript || message.content : message.content).trim()
+      }))
+      .filter(message => message.content)
+  }
+
   getAllConversations(): ConversationMemory[] {
     return Array.from(this.conversations.values())
       .sort((a, b) => b.updatedAt - a.updatedAt)
@@ -131,6 +145,63 @@ class MemoryService {
     this.saveToStorage()
   }
 
+  recordAgentInstance(conversationId: string, agentInstanceId: string): void {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) return
+
+    const ids = conversation.metadata.agentInstanceIds ?? []
+    if (!ids.includes(agentInstanceId)) {
+      conversation.metadata.agentInstanceIds = [...ids, agentInstanceId]
+      this.saveToStorage()
+    }
+  }
+
+  // The agent instance this tab is running. Kept in sessionStorage, which is per tab and survives a
+  // reload, so an instance left behind by a reload or crash can be stopped before the next start.
+  getActiveInstance(): string | null {
+    return sessionStorage.getItem(STORAGE_KEYS.ACTIVE_INSTANCE)
+  }
+
+  setActiveInstance(agentInstanceId: string | null): void {
+    if (agentInstanceId) {
+      sessionStorage.setItem(STORAGE_KEYS.ACTIVE_INSTANCE, agentInstanceId)
+    } else {
+      sessionStorage.removeItem(STORAGE_KEYS.ACTIVE_INSTANCE)
+    }
+  }
+
+  // Fills each conversation's topics from the server's summaries of its sessions
+  syncTopics(memories: MemoryEntry[]): void {
+    const topicsByInstance = new Map(
+      memories
+        .filter(memory => memory.kind === 'summary' && memory.instanceId)
+        .map(memory => [memory.instanceId!, memory.topics])
+    )
+
+    let changed = false
+    for (const conversation of this.conversations.values()) {
+      const topics = Array.from(new Set(
+        (conversation.metadata.agentInstanceIds ?? []).flatMap(id => topicsByInstance.get(id) ?? [])
+      ))
+      if (topics.length > 0 && topics.join('|') !== conversation.metadata.topics.join('|')) {
+        conversation.metadata.topics = topics
+        changed = true
+      }
+    }
+
+    if (changed) this.saveToStorage()
+  }
+
+  // Stable per-browser id so long-term memory follows this user when the API key isn't bound to one
+  getLocalUserId(): string {
+    let userId = localStorage.getItem(STORAGE_KEYS.USER_ID)
+    if (!userId) {
+      userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`
+      localStorage.setItem(STORAGE_KEYS.USER_ID, userId)
+    }
+    return userId
+  }
+
   clearAllConversations(): void {
     this.conversations.clear()
     this.saveToStorage()
@@ -149,6 +149,11 @@ export class ZegoService {
       console.log('👥 Room user update:', updateType, userList.length, 'users')
     })
 
+    this.zg.on('tokenWillExpire', (roomID: string) => {
+      console.log('🔑 Token will expire for room:', roomID)
+      this.renewToken(roomID)
+    })
+
     this.zg.on('roomStateChanged', (roomID: string, reason: string, errorCode: number) => {
       console.log('🏠 Room state changed:', { roomID, reason, errorCode })
     })
@@ -168,6 +173,24 @@ export class ZegoService {
     })
   }
 
+  // Fires about 30s before expiry, so a few quick retries still land before the room is dropped.
+  private async renewToken(roomId: string, attempt = 0): Promise<void> {
+    if (!this.zg || roomId !== this.currentRoomId || !this.currentUserId) return
+
+    try {
+      const { token } = await agentAPI.getToken(this.currentUserId, roomId)
+      if (!this.zg || roomId !== this.currentRoomId) return
+
+      const renewed = this.zg.renewToken(token, roomId)
+      console.log(renewed ? '✅ Token renewed' : '⚠️ Token renewal rejected by engine', roomId)
+    } catch (error) {
+      console.error('❌ Token renewal failed:', error)
+      if (attempt < 2) {
+        setTimeout(() => this.renewToken(roomId, attempt + 1), 5000)
+      }
+    }
+  }
+
   private messageCallback: ((message: any) => void) | null = null
 
   private handleRoomMessage(message: any): void {
@@ -197,7 +220,7 @@ export class ZegoService {
       this.currentUserId = userId
 
       console.log('🔑 Getting token for user:', userId)
-      const { token } = await agentAPI.getToken(userId)
+      const { token } = await agentAPI.getToken(userId, roomId)
 
       console.log('🚪 Logging into room:', roomId)
       await this.zg.loginRoom(roomId, token, {
@@ -5,11 +5,47 @@ export interface Message {
   timestamp: number
   type: 'text' | 'voice'
   isStreaming?: boolean
+  // AI answer cut off before it finished (stop button)
+  interrupted?: boolean
+  // Server-side tools the agent ran while producing this answer
+  toolCalls?: ToolInvocation[]
+  // Knowledge-base passages the answer cited as [1], [2], ...
+  citations?: KbCitation[]
   audioUrl?: string
   duration?: number
   transcript?: string
 }
 
+// A tool call the agent made through the server's LLM proxy (GET /api/sessions/:id/tool-calls)
+export interface ToolInvocation {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+  result?: unknown
+  error?: string
+  durationMs: number
+  round?: number
+  at: number
+}
+
+// A knowledge-base passage an answer cited (GET /api/sessions/:id/citations)
+export interface KbCitation {
+  id: string
+  marker: number
+  documentId: string
+  title: string
+  heading?: string
+  snippet: string
+  round?: number
+  at: number
+}
+
+// Prior turn in the role format /api/start accepts for resuming a conversation
+export interface HistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
 export interface ConversationMemory {
   id: string
   title: string
@@ -20,17 +56,44 @@ export interface ConversationMemory {
     totalMessages: number
     lastAIResponse: string
     topics: string[]
+    // Agent sessions held in this conversation; their server-side summaries supply the topics
+    agentInstanceIds?: string[]
   }
 }
 
+// Something the assistant remembers about the user across conversations (GET /api/memories)
+export interface MemoryEntry {
+  id: string
+  kind: 'fact' | 'summary'
+  text: string
+  topics: string[]
+  source: 'auto' | 'user'
+  instanceId?: string
+  createdAt: number
+  updatedAt: number
+}
+
 export interface VoiceSettings {
   isEnabled: boolean
   autoPlay: boolean
   speechRate: number
   speechPitch: number
+  speechVolume?: number
   preferredVoice?: string
 }
 
+// Live agent overrides held by the server for the running session; unset fields use the agent's defaults
+export interface SessionSettings {
+  voice?: string
+  speed?: number
+  volume?: number
+  temperature?: number
+  systemPromptAddendum?: string
+}
+
+// null resets a setting to the agent's default
+export type SessionSettingsUpdate = { [K in keyof SessionSettings]?: SessionSettings[K] | null }
+
 export interface ChatSession {
   roomId: string
   userId: string
@@ -38,6 +101,7 @@ export interface ChatSession {
   isActive: boolean
   conversationId?: string
   voiceSettings: VoiceSettings
+  agentSettings?: SessionSettings
 }
 
 export interface AIAgent {
@@ -0,0 +1,19 @@
+import { config } from '../config'
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 }
+
+// Production builds never log; development defaults to everything unless VITE_LOG_LEVEL says otherwise.
+const activeLevel: LogLevel = import.meta.env.PROD ? 'silent' : config.LOG_LEVEL ?? 'debug'
+
+function enabled(level: LogLevel): boolean {
+  return LEVELS[level] >= LEVELS[activeLevel]
+}
+
+export const logger = {
+  debug: (...args: unknown[]) => { if (enabled('debug')) console.debug(...args) },
+  info: (...args: unknown[]) => { if (enabled('info')) console.info(...args) },
+  warn: (...args: unknown[]) => { if (enabled('warn')) console.warn(...args) },
+  error: (...args: unknown[]) => { if (enabled('error')) console.error(...args) },
+}
@@ -0,0 +1,116 @@
+import fs from 'fs'
+import path from 'path'
+import { logger } from './logger.js'
+import type { AgentConfig, AgentProfile, AgentProfileInput } from './types.js'
+
+export class AgentStore {
+  private agents: Map<string, AgentProfile> = new Map()
+
+  constructor(private filePath: string, private appId: string) {
+    this.loadFromDisk()
+  }
+
+  private loadFromDisk(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return
+      const profiles: AgentProfile[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+      profiles.forEach(profile => {
+        // Registered under another AppID (or environment): this one has never seen the agent
+        const registered = profile.Registered && profile.RegisteredAppId === this.appId
+        this.agents.set(profile.AgentId, { ...profile, Registered: registered })
+      })
+    } catch (error) {
+      logger.error('Failed to load agent profiles', { file: this.filePath, error })
+    }
+  }
+
+  private saveToDisk(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const profiles = Array.from(this.agents.values())
+    fs.writeFileSync(this.filePath, JSON.stringify(profiles, null, 2))
+  }
+
+  list(): AgentProfile[] {
+    return Array.from(this.agents.values())
+      .sort((a, b) => a.CreatedAt - b.CreatedAt)
+  }
+
+  get(agentId: string): AgentProfile | null {
+    return this.agents.get(agentId) || null
+  }
+
+  has(agentId: string): boolean {
+    return this.agents.has(agentId)
+  }
+
+  save(config: AgentConfig, registered: boolean): AgentProfile {
+    const existing = this.agents.get(config.AgentId)
+    const now = Date.now()
+    const profile: AgentProfile = {
+      ...config,
+      Registered: registered,
+      RegisteredAppId: registered ? this.appId : undefined,
+      CreatedAt: existing?.CreatedAt || now,
+      UpdatedAt: now
+    }
+
+    this.agents.set(profile.AgentId, profile)
+    this.saveToDisk()
+    return profile
+  }
+
+  delete(agentId: string): boolean {
+    const deleted = this.agents.delete(agentId)
+    if (deleted) this.saveToDisk()
+    return deleted
+  }
+}
+
+const MASKED_SECRET = '***'
+
+// A masked or blank key comes from a profile read back through the API; the saved key stays.
+function givenSecret(value: string | undefined): string | undefined {
+  return value && value !== MASKED_SECRET ? value : undefined
+}
+
+export function mergeAgentConfig(base: AgentConfig, input: AgentProfileInput): AgentConfig {
+  return {
+    AgentId: base.AgentId,
+    Name: input.Name ?? base.Name,
+    LLM: {
+      ...base.LLM,
+      ...input.LLM,
+      ApiKey: givenSecret(input.LLM?.ApiKey) ?? base.LLM.ApiKey,
+      Params: { ...base.LLM.Params, ...input.LLM?.Params }
+    },
+    TTS: {
+      ...base.TTS,
+      ...input.TTS,
+      Params: {
+        ...base.TTS.Params,
+        ...input.TTS?.Params,
+        app: {
+          ...base.TTS.Params.app,
+          ...input.TTS?.Params?.app,
+          api_key: givenSecret(input.TTS?.Params?.app?.api_key) ?? base.TTS.Params.app.api_key
+        }
+      }
+    },
+    ASR: { ...base.ASR, ...input.ASR },
+    Routing: input.Routing === null ? undefined : input.Routing ?? base.Routing
+  }
+}
+
+export function toPublicProfile(profile: AgentProfile) {
+  return {
+    ...profile,
+    LLM: { ...profile.LLM, ApiKey: profile.LLM.ApiKey ? MASKED_SECRET : '' },
+    TTS: {
+      ...profile.TTS,
+      Params: {
+        ...profile.TTS.Params,
+        app: { ...profile.TTS.Params.app, api_key: profile.TTS.Params.app.api_key ? MASKED_SECRET : '' }
+      }
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import type { Request, Response, NextFunction } from 'express'
+
+export interface AuthIdentity {
+  method: string
+  subject: string
+  // null means the credential may act on behalf of any user (trusted backend keys)
+  userId: string | null
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthIdentity
+    }
+  }
+}
+
+export interface Authenticator {
+  name: string
+  // Returns null when the credential is not meant for this authenticator.
+  authenticate(credential: string): AuthIdentity | null
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+function base64UrlJson(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+  } catch {
+    throw new AuthError('Malformed token')
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+// Identifies a key in logs and responses without revealing any of it.
+function fingerprint(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 8)
+}
+
+// PROXY_API_KEYS="key" or "key:user_id", comma separated. Keys without a user are service keys.
+export function createApiKeyAuthenticator(spec: string): Authenticator {
+  const keys = new Map<string, string | null>()
+  spec.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':')
+    if (separator === -1) {
+      keys.set(entry, null)
+    } else {
+      keys.set(entry.slice(0, separator), entry.slice(separator + 1) || null)
+    }
+  })
+
+  return {
+    name: 'api_key',
+    authenticate(credential) {
+      for (const [key, userId] of keys) {
+        if (safeEqual(credential, key)) {
+          return { method: 'api_key', subject: `key:${fingerprint(key)}`, userId }
+        }
+      }
+      return null
+    }
+  }
+}
+
+const SESSION_TOKEN_PREFIX = 'zst1.'
+
+export function signSessionToken(secret: string, userId: string, ttlSeconds: number): { token: string; expiresAt: number } {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds
+  const body = Buffer.from(JSON.stringify({ sub: userId, exp: expiresAt })).toString('base64url')
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('base64url')
+  return { token: `${SESSION_TOKEN_PREFIX}${body}.${signature}`, expiresAt }
+}
+
+export function createHmacAuthenticator(secret: string): Authenticator {
+  return {
+    name: 'hmac',
+    authenticate(credential) {
+      if (!credential.startsWith(SESSION_TOKEN_PREFIX)) return null
+
+      const [body, signature] = credential.slice(SESSION_TOKEN_PREFIX.length).split('.')
+      if (!body || !signature) throw new AuthError('Malformed session token')
+
+      const expected = crypto.createHmac('sha256', secret).update(body).digest('base64url')
+      if (!safeEqual(signature, expected)) throw new AuthError('Invalid session token signature')
+
+      const claims = base64UrlJson(body)
+      if (typeof claims.sub !== 'string' || !claims.sub) throw new AuthError('Session token has no subject')
+      if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) throw new AuthError('Session token expired')
+
+      return { method: 'hmac', subject: claims.sub, userId: claims.sub }
+    }
+  }
+}
+
+const JWT_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363'; pss?: boolean }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', pss: true },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' }
+}
+
+export interface JwtAuthenticatorOptions {
+  jwksPath: string
+  issuer?: string
+  audience?: string
+  userClaim: string
+}
+
+export function createJwtAuthenticator(options: JwtAuthenticatorOptions): Authenticator {
+  const jwks: { keys: (crypto.JsonWebKey & { kid?: string })[] } = JSON.parse(fs.readFileSync(options.jwksPath, 'utf8'))
+  const keys = jwks.keys.map(jwk => ({ kid: jwk.kid, key: crypto.createPublicKey({ key: jwk, format: 'jwk' }) }))
+
+  if (keys.length === 0) {
+    throw new Error(`No keys in JWKS file ${options.jwksPath}`)
+  }
+
+  return {
+    name: 'jwt',
+    authenticate(credential) {
+      const parts = credential.split('.')
+      if (parts.length !== 3 || credential.startsWith(SESSION_TOKEN_PREFIX)) return null
+
+      const [headerSegment, payloadSegment, signatureSegment] = parts as [string, string, string]
+      const header = base64UrlJson(headerSegment)
+      const algorithm = JWT_ALGORITHMS[header.alg]
+      if (!algorithm) throw new AuthError(`Unsupported JWT algorithm: ${header.alg}`)
+
+      const candidates = header.kid ? keys.filter(entry => entry.kid === header.kid) : keys
+      const signed = Buffer.from(`${headerSegment}.${payloadSegment}`)
+      const signature = Buffer.from(signatureSegment, 'base64url')
+
+      // crypto.verify throws, rather than returning false, for a malformed signature or a key that
+      // does not fit the algorithm; either way the token is not signed by that key
+      const verified = candidates.some(({ key }) => {
+        try {
+          return crypto.verify(algorithm.hash, signed, {
+            key,
+            ...(algorithm.dsaEncoding && { dsaEncoding: algorithm.dsaEncoding }),
+            ...(algorithm.pss && { padding: crypto.constants.RSA_PKCS1_PSS_PADDING })
+          }, signature)
+        } catch {
+          return false
+        }
+      })
+      if (!verified) throw new AuthError('Invalid JWT signature')
+
+      const claims = base64UrlJson(payloadSegment)
+      const now = Math.floor(Date.now() / 1000)
+      if (typeof claims.exp === 'number' && claims.exp <= now) throw new AuthError('JWT expired')
+      if (typeof claims.nbf === 'number' && claims.nbf > now) throw new AuthError('JWT not yet valid')
+      if (options.issuer && claims.iss !== options.issuer) throw new AuthError('JWT issuer mismatch')
+      if (options.audience) {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+        if (!audiences.includes(options.audience)) throw new AuthError('JWT audience mismatch')
+      }
+
+      const userId = claims[options.userClaim]
+      if (typeof userId !== 'string' || !userId) throw new AuthError(`JWT has no ${options.userClaim} claim`)
+
+      return { method: 'jwt', subject: String(claims.sub ?? userId), userId }
+    }
+  }
+}
+
+function extractCredential(req: Request): string | null {
+  const header = req.get('Authorization')
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim()
+
+  const apiKey = req.get('X-API-Key')
+  if (apiKey) return apiKey.trim()
+
+  // EventSource cannot send headers, so SSE clients pass the credential in the query string.
+  if (typeof req.query.access_token === 'string') return req.query.access_token
+  return null
+}
+
+export function authMiddleware(authenticators: Authenticator[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (authenticators.length === 0) {
+      req.auth = { method: 'none', subject: 'anonymous', userId: null }
+      next()
+      return
+    }
+
+    const credential = extractCredential(req)
+    if (!credential) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Authentication required' })
+      return
+    }
+
+    try {
+      for (const authenticator of authenticators) {
+        const identity = authenticator.authenticate(credential)
+        if (identity) {
+          req.auth = identity
+          next()
+          return
+        }
+      }
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Invalid credentials' })
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error
+      res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json({ error: error.message })
+    }
+  }
+}
+
+export function canActAs(req: Request, userId: string): boolean {
+  const bound = req.auth?.userId ?? null
+  return bound === null || bound === userId
+}
+
+export function isServiceIdentity(req: Request): boolean {
+  return (req.auth?.userId ?? null) === null
+}
@@ -0,0 +1,159 @@
+import { ToolError, type ToolDefinition } from './tools.js'
+
+export const currentTimeTool: ToolDefinition<{ timezone?: string }> = {
+  name: 'get_current_time',
+  description: 'Get the current date and time. Use it for any question about the time, date or day of the week.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: { type: 'string', description: 'IANA time zone such as "Asia/Shanghai" or "Europe/London". Defaults to UTC.' }
+    },
+    additionalProperties: false
+  },
+  execute({ timezone = 'UTC' }) {
+    const now = new Date()
+    let local: string
+    try {
+      local = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        dateStyle: 'full',
+        timeStyle: 'short'
+      }).format(now)
+    } catch {
+      throw new ToolError(`unknown time zone "${timezone}"`)
+    }
+    return { iso: now.toISOString(), timezone, local }
+  }
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E }
+
+const MAX_EXPRESSION_LENGTH = 200
+
+// Recursive-descent evaluator for arithmetic: + - * / % ^, parentheses, unary minus,
+// the functions above and the constants pi and e. Nothing is ever passed to eval.
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) throw new ToolError(`expression longer than ${MAX_EXPRESSION_LENGTH} characters`)
+
+  const tokens = expression
+    .replace(/×/g, '*')
+    .replace(/÷/g, '/')
+    .match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|\S/gi) ?? []
+  let position = 0
+
+  const peek = () => tokens[position]
+  const take = (expected?: string) => {
+    const token = tokens[position]
+    if (expected !== undefined && token !== expected) {
+      throw new ToolError(token === undefined ? `expected "${expected}" at the end` : `expected "${expected}" but found "${token}"`)
+    }
+    position++
+    return token
+  }
+
+  const parseSum = (): number => {
+    let value = parseProduct()
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseProduct() : value - parseProduct()
+    }
+    return value
+  }
+
+  const parseProduct = (): number => {
+    let value = parseUnary()
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take()
+      const right = parseUnary()
+      if ((operator === '/' || operator === '%') && right === 0) throw new ToolError('division by zero')
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right
+    }
+    return value
+  }
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      take()
+      return -parseUnary()
+    }
+    if (peek() === '+') {
+      take()
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  // Right-associative and tighter than a leading minus: -2^2 is -4, 2^3^2 is 512
+  const parsePower = (): number => {
+    const base = parsePrimary()
+    if (peek() !== '^') return base
+    take()
+    return base ** parseUnary()
+  }
+
+  const parsePrimary = (): number => {
+    const token = take()
+    if (token === undefined) throw new ToolError('unexpected end of expression')
+    if (token === '(') {
+      const value = parseSum()
+      take(')')
+      return value
+    }
+    if (/^[\d.]/.test(token)) return Number(token)
+
+    const name = token.toLowerCase()
+    if (name in CONSTANTS) return CONSTANTS[name]!
+    const fn = FUNCTIONS[name]
+    if (!fn) throw new ToolError(`unknown name "${token}"`)
+
+    take('(')
+    const args = [parseSum()]
+    while (peek() === ',') {
+      take()
+      args.push(parseSum())
+    }
+    take(')')
+    return fn(...args)
+  }
+
+  const value = parseSum()
+  if (position < tokens.length) throw new ToolError(`unexpected "${tokens[position]}"`)
+  if (!Number.isFinite(value)) throw new ToolError('result is not a finite number')
+  return value
+}
+
+export const calculatorTool: ToolDefinition<{ expression: string }> = {
+  name: 'calculator',
+  description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, log, ln, exp, pow, min, max, pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(12.5 * 4) / 3" or "sqrt(2) ^ 2"' }
+    },
+    required: ['expression'],
+    additionalProperties: false
+  },
+  execute({ expression }) {
+    const value = evaluateExpression(expression)
+    // Hide binary floating-point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return { expression, result: Number(value.toPrecision(12)) }
+  }
+}
+
+export const BUILTIN_TOOLS: ToolDefinition<any>[] = [currentTimeTool, calculatorTool]
@@ -0,0 +1,209 @@
+import crypto from 'crypto'
+import { logger } from './logger.js'
+import type { AgentCallbackEvent, CallbackData, CallbackEventType } from './types.js'
+
+export type CallbackHandler = (event: AgentCallbackEvent) => void | Promise<void>
+
+export type IngestResult =
+  | { status: 'accepted'; event: AgentCallbackEvent }
+  | { status: 'duplicate'; event: AgentCallbackEvent }
+  | { status: 'unsupported'; event: string }
+  | { status: 'invalid_signature' }
+  | { status: 'invalid'; error: string }
+
+const CALLBACK_EVENT_TYPES: CallbackEventType[] = [
+  'ASRResult',
+  'LLMResult',
+  'Exception',
+  'Interrupted',
+  'UserSpeakAction',
+  'AgentSpeakAction'
+]
+
+const MAX_TRACKED_SEQUENCES = 1000
+// Late or replayed callbacks for ended or unknown instances start new entries, so instances are
+// dropped least recently heard from first
+const MAX_TRACKED_INSTANCES = 1000
+
+// ZEGO signs callbacks as sha1 over the lexically sorted secret, timestamp and nonce.
+export function createCallbackSignature(secret: string, timestamp: number | string, nonce: string): string {
+  return crypto
+    .createHash('sha1')
+    .update([secret, String(timestamp), String(nonce)].sort().join(''))
+    .digest('hex')
+}
+
+export function verifyCallbackSignature(body: CallbackData, secret: string): boolean {
+  const { Signature, Timestamp, Nonce } = body
+  if (!Signature || Timestamp === undefined || !Nonce) return false
+
+  const expected = createCallbackSignature(secret, Timestamp, Nonce)
+  const received = Buffer.from(String(Signature).toLowerCase())
+  return received.length === expected.length && crypto.timingSafeEqual(received, Buffer.from(expected))
+}
+
+// Callbacks carry second-resolution timestamps; parsed events use milliseconds like the rest of the server.
+function toMilliseconds(timestamp: unknown): number {
+  const value = Number(timestamp)
+  if (!Number.isFinite(value) || value <= 0) return Date.now()
+  return value < 1e12 ? value * 1000 : value
+}
+
+function isEventType(event: unknown): event is CallbackEventType {
+  return CALLBACK_EVENT_TYPES.includes(event as CallbackEventType)
+}
+
+export function parseCallbackEvent(body: CallbackData): AgentCallbackEvent {
+  const { Event, Data, AgentInstanceId, Sequence, Timestamp } = body
+
+  if (!isEventType(Event)) {
+    throw new Error(`Unsupported callback event: ${Event}`)
+  }
+  if (!AgentInstanceId || typeof AgentInstanceId !== 'string') {
+    throw new Error('AgentInstanceId required')
+  }
+  if (typeof Sequence !== 'number' || !Number.isFinite(Sequence)) {
+    throw new Error('Sequence must be a number')
+  }
+
+  const data = Data && typeof Data === 'object' ? Data : {}
+  const base = {
+    AppId: body.AppId,
+    AgentInstanceId,
+    AgentUserId: body.AgentUserId,
+    RoomId: body.RoomId,
+    Sequence,
+    Timestamp: toMilliseconds(Timestamp)
+  }
+
+  switch (Event) {
+    case 'ASRResult':
+    case 'LLMResult':
+      return {
+        ...base,
+        Event,
+        Data: {
+          Text: String(data.Text ?? ''),
+          MessageId: String(data.MessageId ?? ''),
+          EndFlag: Boolean(data.EndFlag)
+        }
+      }
+    case 'Exception':
+      return {
+        ...base,
+        Event,
+        Data: { Code: Number(data.Code) || 0, Message: String(data.Message ?? '') }
+      }
+    case 'Interrupted':
+      return {
+        ...base,
+        Event,
+        Data: data.MessageId ? { MessageId: String(data.MessageId) } : {}
+      }
+    case 'UserSpeakAction':
+    case 'AgentSpeakAction':
+      return { ...base, Event, Data: { Action: Number(data.Action) } }
+  }
+}
+
+export class CallbackPipeline {
+  private handlers: Map<string, Set<CallbackHandler>> = new Map()
+  private globalHandlers: Set<CallbackHandler> = new Set()
+  private seenSequences: Map<string, Set<number>> = new Map()
+
+  constructor(private options: { secret: string; verifySignature: boolean }) {}
+
+  on(instanceId: string, handler: CallbackHandler): () => void {
+    let handlers = this.handlers.get(instanceId)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(instanceId, handlers)
+    }
+    handlers.add(handler)
+
+    return () => {
+      handlers.delete(handler)
+      if (handlers.size === 0) this.handlers.delete(instanceId)
+    }
+  }
+
+  onAny(handler: CallbackHandler): () => void {
+    this.globalHandlers.add(handler)
+    return () => {
+      this.globalHandlers.delete(handler)
+    }
+  }
+
+  forget(instanceId: string): void {
+    this.handlers.delete(instanceId)
+    this.seenSequences.delete(instanceId)
+  }
+
+  ingest(body: CallbackData): IngestResult {
+    if (!body || typeof body !== 'object') {
+      return { status: 'invalid', error: 'Callback body required' }
+    }
+
+    if (this.options.verifySignature && !verifyCallbackSignature(body, this.options.secret)) {
+      return { status: 'invalid_signature' }
+    }
+
+    if (!isEventType(body.Event)) {
+      return { status: 'unsupported', event: String(body.Event) }
+    }
+
+    let event: AgentCallbackEvent
+    try {
+      event = parseCallbackEvent(body)
+    } catch (error: any) {
+      return { status: 'invalid', error: error.message }
+    }
+
+    if (this.isDuplicate(event)) {
+      return { status: 'duplicate', event }
+    }
+
+    this.dispatch(event)
+    return { status: 'accepted', event }
+  }
+
+  private isDuplicate(event: AgentCallbackEvent): boolean {
+    let seen = this.seenSequences.get(event.AgentInstanceId)
+    if (seen) {
+      this.seenSequences.delete(event.AgentInstanceId)
+    } else {
+      seen = new Set()
+      if (this.seenSequences.size >= MAX_TRACKED_INSTANCES) {
+        const oldest = this.seenSequences.keys().next().value
+        if (oldest !== undefined) this.seenSequences.delete(oldest)
+      }
+    }
+    this.seenSequences.set(event.AgentInstanceId, seen)
+
+    if (seen.has(event.Sequence)) return true
+
+    seen.add(event.Sequence)
+    if (seen.size > MAX_TRACKED_SEQUENCES) {
+      const oldest = seen.values().next().value
+      if (oldest !== undefined) seen.delete(oldest)
+    }
+    return false
+  }
+
+  private dispatch(event: AgentCallbackEvent): void {
+    const handlers = [
+      ...this.globalHandlers,
+      ...(this.handlers.get(event.AgentInstanceId) || [])
+    ]
+
+    for (const handler of handlers) {
+      try {
+        Promise.resolve(handler(event)).catch(error => {
+          logger.error('Callback handler error', { event: event.Event, instanceId: event.AgentInstanceId, error })
+        })
+      } catch (error) {
+        logger.error('Callback handler error', { event: event.Event, instanceId: event.AgentInstanceId, error })
+      }
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { z } from 'zod'
+import dotenv from 'dotenv'
+import crypto from 'crypto'
+import path from 'path'
+
+dotenv.config()
+
+const integer = (fallback: number) => z.coerce.number().int().min(0).default(fallback)
+const positiveInteger = (fallback: number) => z.coerce.number().int().positive().default(fallback)
+const flag = (fallback: boolean) => z.enum(['true', 'false']).default(fallback ? 'true' : 'false').transform(value => value === 'true')
+
+const priceTableSchema = z.object({
+  currency: z.string().default('USD'),
+  perAgentMinute: z.number().min(0).default(0),
+  perLlmTurn: z.number().min(0).default(0),
+  perThousandTtsCharacters: z.number().min(0).default(0),
+  perAsrMinute: z.number().min(0).default(0),
+  perTextMessage: z.number().min(0).default(0)
+}).strict()
+
+const jsonObject = z.string().transform((value, ctx) => {
+  try {
+    return JSON.parse(value)
+  } catch {
+    ctx.addIssue({ code: 'custom', message: 'Must be valid JSON' })
+    return z.NEVER
+  }
+})
+
+const llmProviderSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]{1,32}$/, 'Provider names are 1-32 letters, digits, _ or -'),
+  url: z.string().url(),
+  apiKey: z.string().optional(),
+  model: z.string().optional(),
+  firstChunkTimeoutMs: z.number().int().min(0).optional()
+}).strict()
+
+const AUTH_METHODS = ['none', 'api_key', 'hmac', 'jwt']
+
+// Always available as provider "dashscope" unless LLM_PROVIDERS defines its own
+const DASHSCOPE_CHAT_URL = 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions'
+
+const configSchema = z.object({
+  ZEGO_APP_ID: z.string({ error: 'ZEGO App ID is required' }).regex(/^\d+$/, 'ZEGO App ID must be numeric'),
+  ZEGO_SERVER_SECRET: z.string({ error: 'ZEGO Server Secret is required' }).length(32, 'ZEGO Server Secret must be 32 characters'),
+  ZEGO_API_BASE_URL: z.string().url('Valid ZEGO API base URL required').default('https://aigc-aiagent-api.zegotech.cn/'),
+  // Set to "zego_test" explicitly to use ZEGO's trial credentials
+  DASHSCOPE_API_KEY: z.string({ error: 'DashScope API key is required (use "zego_test" during the ZEGO trial)' }),
+  PORT: positiveInteger(8080),
+  DATA_DIR: z.string().default(path.resolve('data')),
+  SESSION_IDLE_TIMEOUT_MS: positiveInteger(300000),
+  SESSION_MAX_DURATION_MS: positiveInteger(7200000),
+  SESSION_REAP_INTERVAL_MS: positiveInteger(30000),
+  CALLBACK_SECRET: z.string().optional(),
+  CALLBACK_VERIFY_SIGNATURE: flag(true),
+  EVENT_BUFFER_SIZE: positiveInteger(200),
+  TRANSCRIPT_STORE: z.enum(['json', 'memory']).default('json'),
+  USAGE_STORE: z.enum(['json', 'memory']).default('json'),
+  USAGE_PRICES: jsonObject.default({}).pipe(priceTableSchema),
+  ZEGO_TIMEOUT_MS: positiveInteger(10000),
+  ZEGO_RETRY_ATTEMPTS: positiveInteger(3),
+  ZEGO_RETRYABLE_CODES: z.string().default('')
+    .refine(value => value.split(',').every(code => !code.trim() || /^\d+$/.test(code.trim())), 'Must be a comma-separated list of numeric codes')
+    .transform(value => value.split(',').filter(code => code.trim()).map(code => parseInt(code.trim(), 10))),
+  ZEGO_AGENT_NOT_FOUND_CODES: z.string().default('410001002')
+    .refine(value => value.split(',').every(code => !code.trim() || /^\d+$/.test(code.trim())), 'Must be a comma-separated list of numeric codes')
+    .transform(value => value.split(',').filter(code => code.trim()).map(code => parseInt(code.trim(), 10))),
+  ZEGO_BREAKER_THRESHOLD: positiveInteger(5),
+  ZEGO_BREAKER_RESET_MS: positiveInteger(30000),
+  HEALTH_PROBE_TIMEOUT_MS: positiveInteger(3000),
+  HEALTH_READY_CACHE_MS: integer(5000),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error', 'silent']).default('info'),
+  LOG_USER_TEXT: flag(false),
+  TRUST_PROXY: z.string().default(''),
+  QUOTA_STORE: z.enum(['memory']).default('memory'),
+  QUOTA_USER_CONCURRENT_SESSIONS: integer(2),
+  QUOTA_USER_SESSION_STARTS_PER_HOUR: integer(20),
+  QUOTA_USER_MESSAGES_PER_MINUTE: integer(20),
+  QUOTA_USER_AGENT_MINUTES_PER_DAY: integer(120),
+  QUOTA_IP_CONCURRENT_SESSIONS: integer(5),
+  QUOTA_IP_SESSION_STARTS_PER_HOUR: integer(60),
+  QUOTA_IP_MESSAGES_PER_MINUTE: integer(60),
+  QUOTA_IP_AGENT_MINUTES_PER_DAY: integer(0),
+  RTC_TOKEN_TTL: positiveInteger(3600),
+  HISTORY_TOKEN_BUDGET: positiveInteger(1500),
+  MEMORY_STORE: z.enum(['json', 'memory']).default('json'),
+  MEMORY_SUMMARIZER: z.enum(['llm', 'heuristic', 'off']).default('llm'),
+  MEMORY_LLM_TIMEOUT_MS: positiveInteger(20000),
+  MEMORY_TOKEN_BUDGET: integer(400),
+  MEMORY_MAX_FACTS: positiveInteger(50),
+  MEMORY_MAX_SUMMARIES: positiveInteger(20),
+  LLM_PROXY_PUBLIC_URL: z.string().url('Must be the URL ZEGO can reach this server at').optional(),
+  LLM_PROXY_API_KEY: z.string().optional(),
+  LLM_PROXY_UPSTREAM: z.enum(['http', 'echo']).default('http'),
+  LLM_PROXY_UPSTREAM_URL: z.string().url().optional(),
+  LLM_PROXY_UPSTREAM_API_KEY: z.string().optional(),
+  LLM_PROXY_TIMEOUT_MS: positiveInteger(30000),
+  LLM_PROXY_SCRIPT: z.string().default(''),
+  LLM_TOOLS: z.string().default('get_current_time,calculator')
+    .transform(value => value.split(',').map(name => name.trim()).filter(name => name && name !== 'none')),
+  LLM_TOOL_TIMEOUT_MS: positiveInteger(5000),
+  LLM_MAX_TOOL_ROUNDS: positiveInteger(3),
+  LLM_PROVIDERS: jsonObject.default([]).pipe(z.array(llmProviderSchema)),
+  LLM_DEFAULT_PROVIDER: z.string().default('dashscope'),
+  LLM_FALLBACK_PROVIDERS: z.string().default('')
+    .transform(value => value.split(',').map(name => name.trim()).filter(Boolean)),
+  LLM_FIRST_CHUNK_TIMEOUT_MS: integer(5000),
+  KB_STORE: z.enum(['json', 'memory']).default('json'),
+  KB_MAX_UPLOAD_BYTES: positiveInteger(2 * 1024 * 1024),
+  KB_TOP_K: positiveInteger(3),
+  KB_TOKEN_BUDGET: integer(800),
+  KB_MIN_SCORE: z.coerce.number().min(0).default(0.5),
+  KB_EMBEDDINGS_URL: z.string().url().optional(),
+  KB_EMBEDDINGS_MODEL: z.string().default('nomic-embed-text'),
+  KB_EMBEDDINGS_API_KEY: z.string().optional(),
+  KB_EMBEDDINGS_TIMEOUT_MS: positiveInteger(3000),
+  KB_MIN_SIMILARITY: z.coerce.number().min(-1).max(1).default(0.5),
+  PROXY_AUTH: z.string().default('none')
+    .transform(value => value.split(',').map(method => method.trim()).filter(method => method && method !== 'none'))
+    .refine(methods => methods.every(method => AUTH_METHODS.includes(method)), `Must be a comma-separated list of: ${AUTH_METHODS.join(', ')}`),
+  PROXY_API_KEYS: z.string().default(''),
+  PROXY_AUTH_SECRET: z.string().default(''),
+  PROXY_SESSION_TTL: positiveInteger(3600),
+  PROXY_JWKS_PATH: z.string().default(''),
+  PROXY_JWT_ISSUER: z.string().optional(),
+  PROXY_JWT_AUDIENCE: z.string().optional(),
+  PROXY_JWT_USER_CLAIM: z.string().default('sub')
+}).superRefine((config, ctx) => {
+  const requires: Record<string, keyof typeof config> = {
+    api_key: 'PROXY_API_KEYS',
+    hmac: 'PROXY_AUTH_SECRET',
+    jwt: 'PROXY_JWKS_PATH'
+  }
+  for (const method of config.PROXY_AUTH) {
+    const setting = requires[method]
+    if (setting && !config[setting]) {
+      ctx.addIssue({ code: 'custom', path: [setting], message: `Required when PROXY_AUTH includes ${method}` })
+    }
+  }
+
+  const providerNames = new Set<string>()
+  for (const provider of config.LLM_PROVIDERS) {
+    if (providerNames.has(provider.name)) {
+      ctx.addIssue({ code: 'custom', path: ['LLM_PROVIDERS'], message: `Duplicate provider "${provider.name}"` })
+    }
+    providerNames.add(provider.name)
+  }
+  providerNames.add('dashscope')
+  for (const [setting, names] of [['LLM_DEFAULT_PROVIDER', [config.LLM_DEFAULT_PROVIDER]], ['LLM_FALLBACK_PROVIDERS', config.LLM_FALLBACK_PROVIDERS]] as const) {
+    for (const name of names) {
+      if (!providerNames.has(name)) ctx.addIssue({ code: 'custom', path: [setting], message: `Unknown provider "${name}"` })
+    }
+  }
+}).transform(config => ({
+  ...config,
+  CALLBACK_SECRET: config.CALLBACK_SECRET || config.ZEGO_SERVER_SECRET,
+  // Stable across restarts, since registered agents keep presenting it
+  LLM_PROXY_API_KEY: config.LLM_PROXY_API_KEY
+    || crypto.createHmac('sha256', config.ZEGO_SERVER_SECRET).update('llm-proxy').digest('hex'),
+  LLM_PROXY_UPSTREAM_API_KEY: config.LLM_PROXY_UPSTREAM_API_KEY || config.DASHSCOPE_API_KEY,
+  LLM_PROVIDERS: [
+    ...(config.LLM_PROVIDERS.some(provider => provider.name === 'dashscope')
+      ? []
+      : [{ name: 'dashscope', url: DASHSCOPE_CHAT_URL, apiKey: config.DASHSCOPE_API_KEY, model: 'qwen-plus' }]),
+    ...config.LLM_PROVIDERS
+  ]
+}))
+
+export type ServerConfig = z.infer<typeof configSchema>
+
+// Empty variables (e.g. `PORT=` left in a copied .env) count as unset so defaults apply.
+function readEnv(env: NodeJS.ProcessEnv): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(env).filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1].trim() !== '')
+  )
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const result = configSchema.safeParse(readEnv(env))
+
+  if (!result.success) {
+    const problems = result.error.issues
+      .map(issue => `  - ${issue.path.join('.') || 'config'}: ${issue.message}`)
+      .join('\n')
+    console.error(`Invalid server configuration:\n${problems}\nSee server/.env.example for every setting.`)
+    process.exit(1)
+  }
+  return result.data
+}
+
+export const CONFIG = loadConfig()
@@ -0,0 +1,111 @@
+import type { Response } from 'express'
+import type { AgentCallbackEvent } from './types.js'
+
+interface BufferedEvent {
+  id: number
+  event: AgentCallbackEvent
+}
+
+interface SessionChannel {
+  nextId: number
+  buffer: BufferedEvent[]
+  subscribers: Set<Response>
+}
+
+const HEARTBEAT_INTERVAL_MS = 15000
+
+function writeEvent(res: Response, { id, event }: BufferedEvent): void {
+  const payload = {
+    event: event.Event,
+    sequence: event.Sequence,
+    timestamp: event.Timestamp,
+    data: event.Data
+  }
+  res.write(`id: ${id}\nevent: ${event.Event}\ndata: ${JSON.stringify(payload)}\n\n`)
+}
+
+export class SessionEventStream {
+  private channels: Map<string, SessionChannel> = new Map()
+
+  constructor(private bufferSize: number = 200) {}
+
+  private channel(instanceId: string): SessionChannel {
+    let channel = this.channels.get(instanceId)
+    if (!channel) {
+      channel = { nextId: 1, buffer: [], subscribers: new Set() }
+      this.channels.set(instanceId, channel)
+    }
+    return channel
+  }
+
+  has(instanceId: string): boolean {
+    return this.channels.has(instanceId)
+  }
+
+  publish(event: AgentCallbackEvent): void {
+    const channel = this.channel(event.AgentInstanceId)
+    const buffered: BufferedEvent = { id: channel.nextId++, event }
+
+    channel.buffer.push(buffered)
+    if (channel.buffer.length > this.bufferSize) {
+      channel.buffer.shift()
+    }
+
+    for (const res of channel.subscribers) {
+      writeEvent(res, buffered)
+    }
+  }
+
+  subscribe(instanceId: string, res: Response, lastEventId?: number): void {
+    const channel = this.channel(instanceId)
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    })
+    res.flushHeaders()
+    res.write('retry: 3000\n\n')
+
+    if (lastEventId !== undefined) {
+      const oldest = channel.buffer[0]
+      if (oldest && oldest.id > lastEventId + 1) {
+        res.write(`event: gap\ndata: ${JSON.stringify({ missedFrom: lastEventId + 1, resumedAt: oldest.id })}\n\n`)
+      }
+      channel.buffer
+        .filter(buffered => buffered.id > lastEventId)
+        .forEach(buffered => writeEvent(res, buffered))
+    }
+
+    channel.subscribers.add(res)
+
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n')
+    }, HEARTBEAT_INTERVAL_MS)
+
+    res.on('close', () => {
+      clearInterval(heartbeat)
+      channel.subscribers.delete(res)
+    })
+  }
+
+  close(instanceId: string, reason: string = 'stopped', detail?: Record<string, unknown>): void {
+    const channel = this.channels.get(instanceId)
+    if (!channel) return
+
+    for (const res of channel.subscribers) {
+      res.write(`event: end\ndata: ${JSON.stringify({ reason, ...detail })}\n\n`)
+      res.end()
+    }
+    this.channels.delete(instanceId)
+  }
+
+  get subscriberCount(): number {
+    let count = 0
+    for (const channel of this.channels.values()) {
+      count += channel.subscribers.size
+    }
+    return count
+  }
+}
@@ -0,0 +1,80 @@
+import axios from 'axios'
+
+export type ReadinessCheck = () => Promise<Record<string, unknown> | void>
+
+export interface CheckResult {
+  ok: boolean
+  latencyMs: number
+  error?: string
+  [detail: string]: unknown
+}
+
+export interface ReadinessReport {
+  ready: boolean
+  checkedAt: string
+  checks: Record<string, CheckResult>
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+// Any HTTP response means the host is up; only connection failures and timeouts count as unreachable.
+export async function probeHttp(url: string, timeoutMs: number): Promise<{ status: number }> {
+  const response = await axios.get(url, {
+    timeout: timeoutMs,
+    validateStatus: () => true,
+    maxRedirects: 0,
+    responseType: 'stream'
+  })
+  response.data.destroy()
+  return { status: response.status }
+}
+
+// Runs dependency checks in parallel. Results are cached briefly so frequent
+// orchestrator probes do not turn into a steady stream of upstream calls.
+export class ReadinessProbe {
+  private cached: { report: ReadinessReport; at: number } | null = null
+  private inFlight: Promise<ReadinessReport> | null = null
+
+  constructor(
+    private checks: Record<string, ReadinessCheck>,
+    private options: { timeoutMs: number; cacheMs: number }
+  ) {}
+
+  run(): Promise<ReadinessReport> {
+    if (this.cached && Date.now() - this.cached.at < this.options.cacheMs) {
+      return Promise.resolve(this.cached.report)
+    }
+    if (!this.inFlight) {
+      this.inFlight = this.runChecks().finally(() => {
+        this.inFlight = null
+      })
+    }
+    return this.inFlight
+  }
+
+  private async runChecks(): Promise<ReadinessReport> {
+    const entries = await Promise.all(Object.entries(this.checks).map(async ([name, check]): Promise<[string, CheckResult]> => {
+      const startedAt = Date.now()
+      try {
+        const details = await withTimeout(check(), this.options.timeoutMs)
+        return [name, { ok: true, latencyMs: Date.now() - startedAt, ...details }]
+      } catch (error: any) {
+        return [name, { ok: false, latencyMs: Date.now() - startedAt, error: error?.message || String(error) }]
+      }
+    }))
+
+    const report: ReadinessReport = {
+      ready: entries.every(([, result]) => result.ok),
+      checkedAt: new Date().toISOString(),
+      checks: Object.fromEntries(entries)
+    }
+    this.cached = { report, at: Date.now() }
+    return report
+  }
+}
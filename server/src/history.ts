@@ -0,0 +1,59 @@
+import type { ZegoHistoryMessage } from './types.js'
+
+// Prior conversation turns a client sends to /api/start so a resumed conversation keeps its context.
+
+const MAX_INPUT_MESSAGES = 500
+const MAX_MESSAGE_LENGTH = 20000
+// Role and separator tokens each message costs in a chat-completions prompt
+const MESSAGE_OVERHEAD_TOKENS = 4
+const CJK_CHARACTER = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g
+
+export interface HistoryInput {
+  role: string
+  content: string
+}
+
+// Rough count without a tokenizer: about 4 characters per token for Latin script, one per CJK character.
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_CHARACTER)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+export type HistoryParseResult = { messages: ZegoHistoryMessage[] } | { error: string }
+
+export function parseHistory(input: unknown): HistoryParseResult {
+  if (input === undefined || input === null) return { messages: [] }
+  if (!Array.isArray(input)) return { error: 'messages must be an array' }
+  if (input.length > MAX_INPUT_MESSAGES) return { error: `messages may contain at most ${MAX_INPUT_MESSAGES} entries` }
+
+  const messages: ZegoHistoryMessage[] = []
+  for (const [index, item] of (input as Partial<HistoryInput>[]).entries()) {
+    if (!item || typeof item !== 'object') return { error: `messages[${index}] must be an object` }
+    if (item.role !== 'user' && item.role !== 'assistant') {
+      return { error: `messages[${index}].role must be "user" or "assistant"` }
+    }
+    if (typeof item.content !== 'string') return { error: `messages[${index}].content must be a string` }
+    if (item.content.length > MAX_MESSAGE_LENGTH) {
+      return { error: `messages[${index}].content must be at most ${MAX_MESSAGE_LENGTH} characters` }
+    }
+
+    const content = item.content.trim()
+    if (content) messages.push({ Role: item.role, Content: content })
+  }
+  return { messages }
+}
+
+// Keeps the newest messages that fit both the token budget and the agent's history window.
+export function truncateHistory(messages: ZegoHistoryMessage[], tokenBudget: number, maxMessages: number): ZegoHistoryMessage[] {
+  const kept: ZegoHistoryMessage[] = []
+  let tokens = 0
+
+  for (let index = messages.length - 1; index >= 0 && kept.length < maxMessages; index--) {
+    const message = messages[index]!
+    tokens += estimateTokens(message.Content) + MESSAGE_OVERHEAD_TOKENS
+    if (tokens > tokenBudget) break
+    kept.unshift(message)
+  }
+
+  return kept
+}
@@ -0,0 +1,528 @@
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import axios from 'axios'
+import { logger } from './logger.js'
+import { estimateTokens } from './history.js'
+import { messageText, type ChatMessage } from './llm-proxy.js'
+import type { KbCitation, KbDocument, KbFormat } from './types.js'
+
+// Knowledge base for retrieval-augmented answers. Uploaded documents are split into passages,
+// indexed with BM25 (plus embeddings from a local OpenAI-compatible endpoint when configured),
+// and the best passages for a user's question are added to the agent's prompt on the LLM proxy.
+
+export interface KbChunk {
+  id: string
+  documentId: string
+  index: number
+  heading?: string
+  text: string
+  embedding?: number[]
+}
+
+export interface StoredKbDocument {
+  document: KbDocument
+  chunks: KbChunk[]
+}
+
+export interface KbStore {
+  list(): Promise<StoredKbDocument[]>
+  save(entry: StoredKbDocument): Promise<void>
+  remove(documentId: string): Promise<boolean>
+  check(): Promise<void>
+}
+
+export class MemoryKbStore implements KbStore {
+  private entries: Map<string, StoredKbDocument> = new Map()
+
+  async list(): Promise<StoredKbDocument[]> {
+    return structuredClone(Array.from(this.entries.values()))
+  }
+
+  async save(entry: StoredKbDocument): Promise<void> {
+    this.entries.set(entry.document.id, structuredClone(entry))
+  }
+
+  async remove(documentId: string): Promise<boolean> {
+    return this.entries.delete(documentId)
+  }
+
+  async check(): Promise<void> {}
+}
+
+// One file per document with its passages (and their embeddings); the index is rebuilt on load.
+export class JsonFileKbStore implements KbStore {
+  constructor(private dir: string) {}
+
+  async check(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.access(this.dir, fs.constants.W_OK)
+  }
+
+  private filePath(documentId: string): string {
+    return path.join(this.dir, `${documentId}.json`)
+  }
+
+  async list(): Promise<StoredKbDocument[]> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.dir)
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+
+    const entries: StoredKbDocument[] = []
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        entries.push(JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8')))
+      } catch (error) {
+        logger.warn('Skipping unreadable knowledge-base file', { file, error })
+      }
+    }
+    return entries
+  }
+
+  async save(entry: StoredKbDocument): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const target = this.filePath(entry.document.id)
+    const temp = `${target}.tmp`
+    await fs.writeFile(temp, JSON.stringify(entry))
+    await fs.rename(temp, target)
+  }
+
+  async remove(documentId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(documentId))
+      return true
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false
+      throw error
+    }
+  }
+}
+
+export function createKbStore(kind: string, dataDir: string): KbStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryKbStore()
+    case 'json':
+      return new JsonFileKbStore(path.join(dataDir, 'kb'))
+    default:
+      throw new Error(`Unknown knowledge-base store: ${kind}`)
+  }
+}
+
+const TARGET_CHUNK_CHARS = 900
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+
+// PDF text extraction leaves hard line breaks, hyphenated words and form feeds between pages.
+function normalizeContent(content: string, format: KbFormat): string {
+  let text = content.replace(/\r\n?/g, '\n')
+  if (format === 'pdf-text') {
+    text = text
+      .replace(/\f/g, '\n\n')
+      .replace(/(\p{L})-\n(\p{L})/gu, '$1$2')
+      .replace(/([^\n])\n(?!\n)/g, '$1 ')
+  }
+  return text
+}
+
+// Splits over-long paragraphs at sentence ends, falling back to hard cuts for unpunctuated text.
+function splitLongParagraph(paragraph: string, limit: number): string[] {
+  const sentences = paragraph.match(/[^.!?\u3002\uff01\uff1f]+[.!?\u3002\uff01\uff1f]*\s*/g) ?? [paragraph]
+  const pieces: string[] = []
+  let current = ''
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > limit) {
+      pieces.push(current.trim())
+      current = ''
+    }
+    current += sentence
+    while (current.length > limit * 1.5) {
+      pieces.push(current.slice(0, limit).trim())
+      current = current.slice(limit)
+    }
+  }
+  if (current.trim()) pieces.push(current.trim())
+  return pieces
+}
+
+// Packs paragraphs into passages of about `targetChars`, never across a Markdown heading,
+// and remembers the heading path each passage sits under.
+export function chunkContent(content: string, format: KbFormat, targetChars = TARGET_CHUNK_CHARS): { heading?: string; text: string }[] {
+  const chunks: { heading?: string; text: string }[] = []
+  const headings: string[] = []
+  let paragraphs: string[] = []
+
+  const flush = () => {
+    const heading = headings.filter(Boolean).join(' › ') || undefined
+    let current = ''
+    for (const paragraph of paragraphs.flatMap(text => text.length > targetChars ? splitLongParagraph(text, targetChars) : [text])) {
+      if (current && current.length + paragraph.length > targetChars) {
+        chunks.push({ heading, text: current })
+        current = ''
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph
+    }
+    if (current) chunks.push({ heading, text: current })
+    paragraphs = []
+  }
+
+  for (const block of normalizeContent(content, format).split(/\n\s*\n/)) {
+    const lines = block.trim().split('\n')
+    const heading = format === 'markdown' ? lines[0]!.match(MARKDOWN_HEADING) : null
+    if (heading) {
+      flush()
+      const level = heading[1]!.length
+      headings.length = level - 1
+      headings[level - 1] = heading[2]!
+      lines.shift()
+    }
+    const text = lines.join('\n').trim()
+    if (text) paragraphs.push(text)
+  }
+  flush()
+
+  return chunks
+}
+
+const CJK_RUN = /([\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]+)/
+const STOPWORDS = new Set((
+  'a an and are as at be but by can do does for from has have how i if in is it its me my not of on or our so ' +
+  'that the their them there these they this to was we what when where which who why will with you your'
+).split(' '))
+
+// Folds common English plurals so "refunds" finds "refund"; deliberately cruder than a real stemmer
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 3 && word.endsWith('s') && !/[su]s$/.test(word)) return word.slice(0, -1)
+  return word
+}
+
+// Lowercased, plural-folded words without stopwords. CJK text has no spaces, so its runs become
+// overlapping character pairs.
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const word of text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) ?? []) {
+    for (const [index, part] of word.split(CJK_RUN).entries()) {
+      if (!part) continue
+      if (index % 2 === 0) {
+        if (!STOPWORDS.has(part)) tokens.push(stem(part))
+      } else if (part.length === 1) {
+        tokens.push(part)
+      } else {
+        for (let position = 0; position < part.length - 1; position++) tokens.push(part.slice(position, position + 2))
+      }
+    }
+  }
+  return tokens
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+export class Bm25Index {
+  private postings: Map<string, Map<string, number>> = new Map()
+  private termCounts: Map<string, Map<string, number>> = new Map()
+  private lengths: Map<string, number> = new Map()
+  private totalLength = 0
+
+  add(id: string, tokens: string[]): void {
+    const counts = new Map<string, number>()
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1)
+
+    for (const [term, count] of counts) {
+      let posting = this.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(term, posting)
+      }
+      posting.set(id, count)
+    }
+    this.termCounts.set(id, counts)
+    this.lengths.set(id, tokens.length)
+    this.totalLength += tokens.length
+  }
+
+  remove(id: string): void {
+    for (const term of this.termCounts.get(id)?.keys() ?? []) {
+      const posting = this.postings.get(term)
+      posting?.delete(id)
+      if (posting?.size === 0) this.postings.delete(term)
+    }
+    this.totalLength -= this.lengths.get(id) ?? 0
+    this.termCounts.delete(id)
+    this.lengths.delete(id)
+  }
+
+  search(tokens: string[], accept: (id: string) => boolean): Map<string, number> {
+    const scores = new Map<string, number>()
+    const documents = this.lengths.size
+    if (documents === 0) return scores
+    const averageLength = this.totalLength / documents
+
+    for (const term of new Set(tokens)) {
+      const posting = this.postings.get(term)
+      if (!posting) continue
+      const idf = Math.log(1 + (documents - posting.size + 0.5) / (posting.size + 0.5))
+      for (const [id, frequency] of posting) {
+        if (!accept(id)) continue
+        const length = this.lengths.get(id)!
+        const weight = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength))
+        scores.set(id, (scores.get(id) ?? 0) + idf * weight)
+      }
+    }
+    return scores
+  }
+}
+
+const EMBEDDING_BATCH_SIZE = 32
+
+// Any OpenAI-compatible /v1/embeddings endpoint, e.g. a local Ollama or llama.cpp server.
+export class EmbeddingClient {
+  constructor(private options: { url: string; model: string; apiKey?: string; timeoutMs: number }) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const response = await axios.post(this.options.url, {
+        model: this.options.model,
+        input: texts.slice(start, start + EMBEDDING_BATCH_SIZE)
+      }, {
+        timeout: this.options.timeoutMs,
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}
+      })
+      const data: { index: number; embedding: number[] }[] = response.data?.data ?? []
+      vectors.push(...data.sort((left, right) => left.index - right.index).map(item => item.embedding))
+    }
+    if (vectors.length !== texts.length) throw new Error(`Embedding endpoint returned ${vectors.length} vectors for ${texts.length} inputs`)
+    return vectors
+  }
+}
+
+function cosineSimilarity(left: number[], right: number[]): number {
+  let dot = 0
+  let leftNorm = 0
+  let rightNorm = 0
+  for (let index = 0; index < Math.min(left.length, right.length); index++) {
+    dot += left[index]! * right[index]!
+    leftNorm += left[index]! ** 2
+    rightNorm += right[index]! ** 2
+  }
+  return leftNorm && rightNorm ? dot / Math.sqrt(leftNorm * rightNorm) : 0
+}
+
+export class KbDocumentNotFoundError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} not found`)
+    this.name = 'KbDocumentNotFoundError'
+  }
+}
+
+export interface KbSearchResult {
+  chunk: KbChunk
+  document: KbDocument
+  score: number
+}
+
+export interface KnowledgeBaseOptions {
+  // BM25 score a passage needs to count as a keyword match
+  minScore: number
+  // Cosine similarity a passage needs to count as a semantic match
+  minSimilarity: number
+}
+
+// Reciprocal rank fusion constant: ranks from the two retrievers are merged as 1 / (k + rank)
+const RRF_K = 60
+
+export class KnowledgeBase {
+  private documents: Map<string, StoredKbDocument> = new Map()
+  private chunks: Map<string, KbChunk> = new Map()
+  private index = new Bm25Index()
+
+  constructor(
+    private store: KbStore,
+    private embeddings: EmbeddingClient | null,
+    private options: KnowledgeBaseOptions
+  ) {}
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  async load(): Promise<void> {
+    for (const entry of await this.store.list()) this.indexDocument(entry)
+    logger.info('Knowledge base loaded', { documents: this.documents.size, passages: this.chunks.size })
+  }
+
+  check(): Promise<void> {
+    return this.store.check()
+  }
+
+  private indexDocument(entry: StoredKbDocument): void {
+    this.documents.set(entry.document.id, entry)
+    for (const chunk of entry.chunks) {
+      this.chunks.set(chunk.id, chunk)
+      this.index.add(chunk.id, tokenize(`${entry.document.title} ${chunk.heading ?? ''} ${chunk.text}`))
+    }
+  }
+
+  list(): KbDocument[] {
+    return Array.from(this.documents.values(), entry => entry.document).sort((left, right) => right.createdAt - left.createdAt)
+  }
+
+  get(documentId: string): StoredKbDocument {
+    const entry = this.documents.get(documentId)
+    if (!entry) throw new KbDocumentNotFoundError(documentId)
+    return entry
+  }
+
+  async add(input: { title: string; content: string; format: KbFormat; agentId?: string }): Promise<KbDocument> {
+    const documentId = crypto.randomUUID()
+    // A leading "# Title" heading repeats the document title, so it is left out of the heading path
+    const titlePrefix = `${input.title} › `
+    const chunks: KbChunk[] = chunkContent(input.content, input.format).map(({ heading, text }, index) => ({
+      id: `${documentId}:${index}`,
+      documentId,
+      index,
+      heading: heading === input.title ? undefined : heading?.startsWith(titlePrefix) ? heading.slice(titlePrefix.length) : heading,
+      text
+    }))
+
+    // Without embeddings the document is still searchable by keywords
+    let embedded = false
+    if (this.embeddings && chunks.length > 0) {
+      try {
+        const vectors = await this.embeddings.embed(chunks.map(chunk => [chunk.heading, chunk.text].filter(Boolean).join('\n')))
+        chunks.forEach((chunk, index) => { chunk.embedding = vectors[index] })
+        embedded = true
+      } catch (error) {
+        logger.warn('Embedding failed; document indexed for keyword search only', { documentId, error })
+      }
+    }
+
+    const document: KbDocument = {
+      id: documentId,
+      title: input.title,
+      format: input.format,
+      ...(input.agentId && { agentId: input.agentId }),
+      characters: input.content.length,
+      chunks: chunks.length,
+      embedded,
+      createdAt: Date.now()
+    }
+    await this.store.save({ document, chunks })
+    this.indexDocument({ document, chunks })
+    return document
+  }
+
+  async remove(documentId: string): Promise<void> {
+    const entry = this.get(documentId)
+    await this.store.remove(documentId)
+    for (const chunk of entry.chunks) {
+      this.index.remove(chunk.id)
+      this.chunks.delete(chunk.id)
+    }
+    this.documents.delete(documentId)
+  }
+
+  // Best passages for a query among the documents shared with every agent or limited to `agentId`.
+  async search(query: string, { agentId, limit }: { agentId?: string; limit: number }): Promise<KbSearchResult[]> {
+    const accept = (chunkId: string) => {
+      const document = this.documents.get(this.chunks.get(chunkId)!.documentId)!.document
+      return !document.agentId || document.agentId === agentId
+    }
+
+    const keywordScores = this.index.search(tokenize(query), accept)
+    const ranked = (scores: Map<string, number>, threshold: number) => Array.from(scores)
+      .filter(([, score]) => score >= threshold)
+      .sort((left, right) => right[1] - left[1])
+      .slice(0, limit * 3)
+      .map(([id]) => id)
+    const rankings = [ranked(keywordScores, this.options.minScore)]
+
+    if (this.embeddings && Array.from(this.chunks.values()).some(chunk => chunk.embedding)) {
+      try {
+        const [queryVector] = await this.embeddings.embed([query])
+        const similarities = new Map<string, number>()
+        for (const chunk of this.chunks.values()) {
+          if (chunk.embedding && accept(chunk.id)) similarities.set(chunk.id, cosineSimilarity(queryVector!, chunk.embedding))
+        }
+        rankings.push(ranked(similarities, this.options.minSimilarity))
+      } catch (error) {
+        logger.warn('Query embedding failed; using keyword search only', { error })
+      }
+    }
+
+    const fused = new Map<string, number>()
+    for (const ranking of rankings) {
+      ranking.forEach((id, rank) => fused.set(id, (fused.get(id) ?? 0) + 1 / (RRF_K + rank + 1)))
+    }
+
+    return Array.from(fused)
+      .sort((left, right) => right[1] - left[1])
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const chunk = this.chunks.get(id)!
+        return { chunk, document: this.documents.get(chunk.documentId)!.document, score }
+      })
+  }
+}
+
+// What to search for: the user's last message, with the one before it when it is a short follow-up.
+export function retrievalQuery(messages: ChatMessage[]): string {
+  const userTexts = messages.filter(message => message.role === 'user').map(messageText).filter(text => text.trim())
+  const last = userTexts[userTexts.length - 1] ?? ''
+  if (tokenize(last).length >= 3 || userTexts.length < 2) return last
+  return `${userTexts[userTexts.length - 2]} ${last}`
+}
+
+export const KB_PROMPT_HEADER =
+  'Reference passages from the knowledge base. Answer from them when they are relevant and put the number ' +
+  'of each passage you use in square brackets right after the sentence, like [1]. Never cite a passage you ' +
+  'did not use, and say so when they do not contain the answer.'
+
+// The passages that fit the token budget, numbered from 1 in relevance order.
+export function selectPassages(results: KbSearchResult[], tokenBudget: number): KbSearchResult[] {
+  const selected: KbSearchResult[] = []
+  let tokens = 0
+  for (const result of results) {
+    tokens += estimateTokens(result.chunk.text) + 10
+    if (tokens > tokenBudget && selected.length > 0) break
+    selected.push(result)
+  }
+  return selected
+}
+
+export function renderPassages(passages: KbSearchResult[]): string {
+  const blocks = passages.map(({ chunk, document }, index) => {
+    const source = [document.title, chunk.heading].filter(Boolean).join(' › ')
+    return `[${index + 1}] ${source}\n${chunk.text}`
+  })
+  return `${KB_PROMPT_HEADER}\n\n${blocks.join('\n\n')}`
+}
+
+const SNIPPET_LENGTH = 240
+
+// The passages an answer actually cited, in the order of their [n] markers.
+export function extractCitations(answer: string, passages: KbSearchResult[], requestId: string): Omit<KbCitation, 'round' | 'at'>[] {
+  const markers = new Set<number>()
+  for (const match of answer.matchAll(/\[(\d{1,2})\]/g)) {
+    const marker = Number(match[1])
+    if (marker >= 1 && marker <= passages.length) markers.add(marker)
+  }
+
+  return Array.from(markers, marker => {
+    const { chunk, document } = passages[marker - 1]!
+    const snippet = chunk.text.replace(/\s+/g, ' ').trim()
+    return {
+      id: `${requestId}:${marker}`,
+      marker,
+      documentId: document.id,
+      title: document.title,
+      ...(chunk.heading && { heading: chunk.heading }),
+      snippet: snippet.length > SNIPPET_LENGTH ? `${snippet.slice(0, SNIPPET_LENGTH - 1)}…` : snippet
+    }
+  })
+}
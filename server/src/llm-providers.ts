@@ -0,0 +1,258 @@
+import { logger } from './logger.js'
+import {
+  LlmUpstreamError,
+  hasOutput,
+  type ChatCompletionChunk,
+  type LlmProxyContext,
+  type LlmUpstream,
+  type UpstreamTarget
+} from './llm-proxy.js'
+import type { LlmRoute, LlmRouting, UpstreamFailure } from './types.js'
+
+// Named OpenAI-compatible chat-completions endpoints (DashScope, OpenAI, a local Ollama or
+// llama.cpp server, ...) and the per-agent routing that decides which of them the LLM proxy
+// calls, in what order, when one fails or is slow to start answering.
+
+export interface LlmProvider {
+  name: string
+  url: string
+  apiKey?: string
+  // Used when a route does not name a model; otherwise the agent's own model is sent
+  model?: string
+  firstChunkTimeoutMs?: number
+}
+
+// What detectLanguage can tell apart; a route for any other language would never be picked
+const DETECTED_LANGUAGES = ['zh', 'ja', 'ko', 'en', 'ru', 'ar', 'hi', 'th']
+const MAX_FALLBACKS = 5
+
+export class LlmProviderRegistry {
+  private providers = new Map<string, LlmProvider>()
+
+  constructor(providers: LlmProvider[]) {
+    for (const provider of providers) this.providers.set(provider.name, provider)
+  }
+
+  get(name: string): LlmProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  list(): LlmProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys())
+  }
+
+  // Reported name for an agent's own LLM Url: the provider configured with it, else the host
+  nameFor(url: string): string {
+    const provider = this.list().find(candidate => candidate.url === url)
+    if (provider) return provider.name
+    try {
+      return new URL(url).host
+    } catch {
+      return 'unknown'
+    }
+  }
+
+  target(route: LlmRoute): UpstreamTarget | null {
+    const provider = this.providers.get(route.Provider)
+    if (!provider) return null
+    return {
+      url: provider.url,
+      apiKey: provider.apiKey ?? '',
+      provider: provider.name,
+      model: route.Model ?? provider.model,
+      firstChunkTimeoutMs: provider.firstChunkTimeoutMs
+    }
+  }
+
+  // Targets in the order to try them: the route for the message's language, the primary
+  // (the agent's routing, else `primary`), the agent's fallbacks, then the server-wide ones.
+  resolve(options: { primary: UpstreamTarget; routing?: LlmRouting; language?: string; fallbacks: string[] }): UpstreamTarget[] {
+    const { routing, language } = options
+    const routes: (LlmRoute | UpstreamTarget)[] = [
+      ...(language && routing?.Languages?.[language] ? [routing.Languages[language]] : []),
+      routing?.Primary ?? options.primary,
+      ...(routing?.Fallbacks ?? []),
+      ...options.fallbacks.map(name => ({ Provider: name }))
+    ]
+
+    const targets: UpstreamTarget[] = []
+    const seen = new Set<string>()
+    for (const route of routes) {
+      const target = 'url' in route ? route : this.target(route)
+      if (!target) {
+        logger.warn('LLM routing names an unknown provider', { provider: (route as LlmRoute).Provider })
+        continue
+      }
+      const key = `${target.url}|${target.model ?? ''}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      targets.push(target)
+    }
+    return targets
+  }
+}
+
+// Checks an agent's Routing before it is saved. Returns the problem, or null.
+export function validateRouting(routing: unknown, providers: LlmProviderRegistry): string | null {
+  if (routing === undefined || routing === null) return null
+  if (typeof routing !== 'object' || Array.isArray(routing)) return 'Routing must be an object'
+
+  const checkRoute = (route: unknown, where: string): string | null => {
+    if (!route || typeof route !== 'object' || Array.isArray(route)) return `${where} must be an object with a Provider`
+    const { Provider, Model, ...rest } = route as Record<string, unknown>
+    if (typeof Provider !== 'string' || !providers.get(Provider)) {
+      return `${where}.Provider must be one of: ${providers.names().join(', ')}`
+    }
+    if (Model !== undefined && (typeof Model !== 'string' || !Model.trim())) return `${where}.Model must be a non-empty string`
+    const unknown = Object.keys(rest)[0]
+    return unknown ? `${where}.${unknown} is not a routing field` : null
+  }
+
+  const { Primary, Fallbacks, Languages, ...rest } = routing as Record<string, unknown>
+  const unknown = Object.keys(rest)[0]
+  if (unknown) return `Routing.${unknown} is not a routing field`
+
+  if (Primary !== undefined) {
+    const problem = checkRoute(Primary, 'Routing.Primary')
+    if (problem) return problem
+  }
+
+  if (Fallbacks !== undefined) {
+    if (!Array.isArray(Fallbacks) || Fallbacks.length > MAX_FALLBACKS) {
+      return `Routing.Fallbacks must be an array of at most ${MAX_FALLBACKS} routes`
+    }
+    for (const [index, route] of Fallbacks.entries()) {
+      const problem = checkRoute(route, `Routing.Fallbacks[${index}]`)
+      if (problem) return problem
+    }
+  }
+
+  if (Languages !== undefined) {
+    if (!Languages || typeof Languages !== 'object' || Array.isArray(Languages)) return 'Routing.Languages must be an object'
+    for (const [code, route] of Object.entries(Languages)) {
+      if (!DETECTED_LANGUAGES.includes(code)) return `Routing.Languages keys must be one of: ${DETECTED_LANGUAGES.join(', ')}, not "${code}"`
+      const problem = checkRoute(route, `Routing.Languages.${code}`)
+      if (problem) return problem
+    }
+  }
+
+  return null
+}
+
+const SCRIPTS: [string, RegExp][] = [
+  ['ru', /[\u0400-\u04ff]/g],
+  ['ar', /[\u0600-\u06ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+  ['th', /[\u0e00-\u0e7f]/g],
+  ['en', /[a-z]/gi]
+]
+
+// Guesses the language of a message from its script, which is all per-language routing needs:
+// any kana is Japanese, any Hangul Korean and any other Han Chinese (so a Chinese question that
+// names an English product is zh); otherwise the most used script wins and Latin counts as English.
+export function detectLanguage(text: string): string | undefined {
+  if (/[\u3040-\u30ff]/.test(text)) return 'ja'
+  if (/[\u1100-\u11ff\uac00-\ud7af]/.test(text)) return 'ko'
+  if (/[\u3400-\u9fff\uf900-\ufaff]/.test(text)) return 'zh'
+
+  let best: { language: string; count: number } | undefined
+  for (const [language, pattern] of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0
+    if (count > 0 && (!best || count > best.count)) best = { language, count }
+  }
+  return best?.language
+}
+
+class FirstChunkTimeoutError extends LlmUpstreamError {
+  constructor(timeoutMs: number) {
+    super(504, `No response within ${timeoutMs}ms`)
+    this.name = 'FirstChunkTimeoutError'
+  }
+}
+
+// Tries ctx.target, then each of ctx.fallbacks, until one starts answering. A target fails over
+// when it errors or has sent no content or tool calls within its first-chunk timeout (a role-only
+// opening chunk does not count); the last one is always waited for. Once a chunk has been passed
+// on the reply is committed to that target.
+export class FailoverUpstream implements LlmUpstream {
+  readonly name: string
+
+  constructor(private inner: LlmUpstream, private options: { firstChunkTimeoutMs: number }) {
+    this.name = inner.name
+  }
+
+  async *stream(ctx: LlmProxyContext, signal: AbortSignal): AsyncIterable<ChatCompletionChunk> {
+    // Later tool rounds start with the target that answered the first one
+    const targets = [ctx.target, ...ctx.fallbacks.filter(target => target !== ctx.target)]
+
+    for (const [index, target] of targets.entries()) {
+      const isLast = index === targets.length - 1
+      const attempt = new AbortController()
+      const stop = () => attempt.abort()
+      signal.addEventListener('abort', stop, { once: true })
+
+      const startedAt = Date.now()
+      ctx.target = target
+      // Tool rounds call again after the reply started; its first chunk came from the earlier call
+      if (ctx.firstChunkAt === undefined) ctx.targetStartedAt = startedAt
+      const iterator = this.inner.stream(ctx, attempt.signal)[Symbol.asyncIterator]()
+
+      let first: { chunks: ChatCompletionChunk[]; done: boolean }
+      try {
+        first = await this.firstOutput(iterator, isLast ? 0 : target.firstChunkTimeoutMs ?? this.options.firstChunkTimeoutMs)
+      } catch (error: unknown) {
+        signal.removeEventListener('abort', stop)
+        attempt.abort()
+        if (signal.aborted || isLast) throw error
+
+        const failure: UpstreamFailure = {
+          provider: target.provider,
+          model: target.model ?? ctx.request.model,
+          reason: error instanceof FirstChunkTimeoutError ? 'slow' : 'error',
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startedAt
+        }
+        ctx.failures.push(failure)
+        logger.warn('LLM provider failed over', { requestId: ctx.requestId, ...failure, next: targets[index + 1]!.provider })
+        continue
+      }
+
+      try {
+        for (const chunk of first.chunks) yield chunk
+        if (first.done) return
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) yield next.value
+      } finally {
+        signal.removeEventListener('abort', stop)
+        await iterator.return?.(undefined)
+      }
+      return
+    }
+  }
+
+  // Reads up to the first chunk with output, keeping the ones before it to pass on with it
+  private firstOutput(iterator: AsyncIterator<ChatCompletionChunk>, timeoutMs: number): Promise<{ chunks: ChatCompletionChunk[]; done: boolean }> {
+    const next = (async () => {
+      const chunks: ChatCompletionChunk[] = []
+      for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+        chunks.push(result.value)
+        if (hasOutput(result.value)) return { chunks, done: false }
+      }
+      return { chunks, done: true }
+    })()
+    if (timeoutMs <= 0) return next
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new FirstChunkTimeoutError(timeoutMs)), timeoutMs)
+    })
+    return Promise.race([next, timeout]).finally(() => {
+      clearTimeout(timer)
+      // The abandoned call rejects once it is aborted; nobody is waiting for it any more
+      next.catch(() => {})
+    })
+  }
+}
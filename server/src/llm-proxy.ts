@@ -0,0 +1,462 @@
+import axios from 'axios'
+import crypto from 'crypto'
+import fs from 'fs'
+import type { Readable } from 'stream'
+import { logger } from './logger.js'
+import { toolResultContent, type ToolCall, type ToolInvocation, type ToolRegistry } from './tools.js'
+import type { UpstreamFailure } from './types.js'
+
+// OpenAI-compatible chat-completions proxy. ZEGO calls it with the agent's conversation,
+// the middleware chain may rewrite the request and the streamed reply, and an upstream
+// (a real chat-completions endpoint, or the offline scripted model) produces the chunks.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | { type: string; text?: string }[] | null
+  [field: string]: unknown
+}
+
+export interface ChatCompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  stream?: boolean
+  [field: string]: unknown
+}
+
+// Streamed piece of a tool call; fragments with the same index belong to one call
+export interface ToolCallDelta {
+  index: number
+  id?: string
+  type?: 'function'
+  function?: { name?: string; arguments?: string }
+}
+
+export interface ChatCompletionChunk {
+  id: string
+  object: 'chat.completion.chunk'
+  created: number
+  model: string
+  choices: {
+    index: number
+    delta: { role?: string; content?: string | null; tool_calls?: ToolCallDelta[]; [field: string]: unknown }
+    finish_reason: string | null
+  }[]
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null
+}
+
+// Sent by ZEGO alongside the OpenAI fields when it calls a custom LLM; never forwarded upstream.
+export interface ZegoAgentInfo {
+  room_id?: string
+  agent_instance_id?: string
+  agent_user_id?: string
+  user_id?: string
+  round_id?: number
+  time_stamp?: number
+}
+
+export interface UpstreamTarget {
+  url: string
+  apiKey: string
+  // Name reported in logs and metrics (see llm-providers.ts)
+  provider?: string
+  // Sent instead of the request's model
+  model?: string
+  // Give up on this target for the next one when nothing has streamed by then
+  firstChunkTimeoutMs?: number
+}
+
+export interface LlmProxyContext {
+  requestId: string
+  agentId?: string
+  agentInfo: ZegoAgentInfo
+  // Hooks may edit the request and the target before anything is sent upstream
+  request: ChatCompletionRequest
+  target: UpstreamTarget
+  // Tried in order when the target fails before streaming anything
+  fallbacks: UpstreamTarget[]
+  failures: UpstreamFailure[]
+  startedAt: number
+  // When the target that produced the reply was called
+  targetStartedAt?: number
+  firstChunkAt?: number
+  // Assistant text and finish reason of the reply as it was sent to the caller
+  content: string
+  finishReason: string | null
+  // Server-side tools the model called while producing this reply
+  toolCalls: ToolInvocation[]
+  error?: unknown
+  // Scratch space shared between the hooks of one request
+  state: Record<string, unknown>
+}
+
+export interface LlmMiddleware {
+  name: string
+  // Before the upstream call, in registration order
+  onRequest?(ctx: LlmProxyContext): void | Promise<void>
+  // For each chunk, in registration order. Return a replacement, or null to drop the chunk.
+  onChunk?(chunk: ChatCompletionChunk, ctx: LlmProxyContext): ChatCompletionChunk | null | void
+  // After the reply ended or failed (ctx.error), in reverse order. Errors here are only logged.
+  onComplete?(ctx: LlmProxyContext): void | Promise<void>
+}
+
+export interface LlmUpstream {
+  name: string
+  stream(ctx: LlmProxyContext, signal: AbortSignal): AsyncIterable<ChatCompletionChunk>
+}
+
+export class LlmUpstreamError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'LlmUpstreamError'
+  }
+}
+
+const MAX_ERROR_BODY_LENGTH = 500
+
+export function messageText(message: ChatMessage | undefined): string {
+  if (!message?.content) return ''
+  if (typeof message.content === 'string') return message.content
+  return message.content.map(part => part.text ?? '').join('')
+}
+
+// Whether a chunk carries part of the answer; providers often open with a role-only delta.
+export function hasOutput(chunk: ChatCompletionChunk): boolean {
+  return chunk.choices?.some(choice => !!choice.delta?.content || !!choice.delta?.tool_calls?.length) ?? false
+}
+
+// Adds text to the leading system message, or starts the conversation with one.
+export function appendSystemText(messages: ChatMessage[], text: string): ChatMessage[] {
+  const [first, ...rest] = messages
+  if (first?.role === 'system') return [{ ...first, content: `${messageText(first)}\n\n${text}` }, ...rest]
+  return [{ role: 'system', content: text }, ...messages]
+}
+
+export type ChatRequestParseResult =
+  | { request: ChatCompletionRequest; agentInfo: ZegoAgentInfo }
+  | { error: string }
+
+export function parseChatRequest(body: unknown): ChatRequestParseResult {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be a JSON object' }
+
+  const { agent_info, ...request } = body as Partial<ChatCompletionRequest> & { agent_info?: unknown }
+  if (typeof request.model !== 'string' || !request.model) return { error: 'model required' }
+  if (!Array.isArray(request.messages) || request.messages.length === 0) return { error: 'messages must be a non-empty array' }
+
+  for (const [index, message] of request.messages.entries()) {
+    if (!message || typeof message !== 'object' || typeof message.role !== 'string') {
+      return { error: `messages[${index}] must be an object with a role` }
+    }
+  }
+
+  const agentInfo = agent_info && typeof agent_info === 'object' ? agent_info as ZegoAgentInfo : {}
+  return { request: request as ChatCompletionRequest, agentInfo }
+}
+
+// Forwards to any OpenAI-compatible chat-completions URL, always streaming, and parses the SSE reply.
+export class HttpUpstream implements LlmUpstream {
+  name = 'http'
+
+  constructor(private timeoutMs: number) {}
+
+  async *stream(ctx: LlmProxyContext, signal: AbortSignal): AsyncIterable<ChatCompletionChunk> {
+    const response = await axios.post(ctx.target.url, { ...ctx.request, model: ctx.target.model ?? ctx.request.model, stream: true }, {
+      timeout: this.timeoutMs,
+      signal,
+      responseType: 'stream',
+      validateStatus: () => true,
+      headers: {
+        Accept: 'text/event-stream',
+        ...(ctx.target.apiKey && { Authorization: `Bearer ${ctx.target.apiKey}` })
+      }
+    }).catch(error => {
+      if (signal.aborted) throw error
+      throw new LlmUpstreamError(502, `Upstream LLM unreachable: ${error.message}`)
+    })
+    const body = response.data as Readable
+
+    if (response.status >= 400) {
+      let text = ''
+      for await (const piece of body) {
+        text += piece.toString()
+        if (text.length > MAX_ERROR_BODY_LENGTH) break
+      }
+      body.destroy()
+      throw new LlmUpstreamError(response.status, `Upstream LLM returned ${response.status}: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}`)
+    }
+
+    let buffer = ''
+    try {
+      for await (const piece of body) {
+        buffer += piece.toString()
+        let newline: number
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).trim()
+          buffer = buffer.slice(newline + 1)
+          if (!line.startsWith('data:')) continue
+
+          const data = line.slice(5).trim()
+          if (data === '[DONE]') return
+          try {
+            yield JSON.parse(data) as ChatCompletionChunk
+          } catch {
+            logger.warn('LLM proxy skipped a malformed upstream chunk', { requestId: ctx.requestId })
+          }
+        }
+      }
+    } finally {
+      body.destroy()
+    }
+  }
+}
+
+export interface ScriptRule {
+  match: string
+  reply: string
+  // Call this tool first; "$1".."$9" and "$input" in string arguments are filled from the match
+  tool?: string
+  arguments?: Record<string, unknown>
+}
+
+// Used by the echo upstream when no LLM_PROXY_SCRIPT is given, so the built-in tools can be tried offline
+const DEFAULT_SCRIPT: ScriptRule[] = [
+  {
+    match: '\\b(what time|what day|time is it|date today|today\'s date)\\b',
+    tool: 'get_current_time',
+    reply: 'It is $result.local.'
+  },
+  {
+    match: '(?:calculate|compute|what is|what\'s)\\s+([-+*/%^(). \\d]*\\d[-+*/%^(). \\d]*)',
+    tool: 'calculator',
+    arguments: { expression: '$1' },
+    reply: '$result.expression is $result.result.'
+  }
+]
+
+type ScriptStep = { reply: string } | { toolCall: ToolCall }
+
+// Offline stand-in for a real model. Rules are regexes over the last user message: a matching rule
+// answers with its reply ("$input" is the message), or first calls its tool when the request offers
+// it and then answers with "$result" (or "$result.field") filled from the tool message.
+// Anything else is echoed back. Replies stream word by word.
+export class ScriptedUpstream implements LlmUpstream {
+  name = 'echo'
+  private rules: (ScriptRule & { pattern: RegExp })[]
+
+  constructor(rules: ScriptRule[] = DEFAULT_SCRIPT, private chunkDelayMs = 40) {
+    this.rules = rules.map(rule => ({ ...rule, pattern: new RegExp(rule.match, 'i') }))
+  }
+
+  static fromFile(filePath: string, chunkDelayMs?: number): ScriptedUpstream {
+    const rules = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    if (!Array.isArray(rules) || !rules.every(rule => typeof rule?.match === 'string' && typeof rule?.reply === 'string')) {
+      throw new Error(`${filePath} must be a JSON array of {"match", "reply"} objects`)
+    }
+    return new ScriptedUpstream(rules, chunkDelayMs)
+  }
+
+  next(request: ChatCompletionRequest): ScriptStep {
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user')
+    const input = messageText(lastUser).trim()
+    const echo = { reply: input ? `You said: ${input}` : 'Hello! This is the offline echo model.' }
+    const rule = this.rules.find(candidate => candidate.pattern.test(input))
+    if (!rule) return echo
+
+    const last = request.messages[request.messages.length - 1]
+    if (rule.tool && last?.role !== 'tool') {
+      const offered = Array.isArray(request.tools) && request.tools.some(tool => tool?.function?.name === rule.tool)
+      if (!offered || request.tool_choice === 'none') return echo
+
+      const groups = input.match(rule.pattern) ?? []
+      const fill = (value: unknown) => typeof value === 'string'
+        ? value.replaceAll('$input', input).replace(/\$(\d)/g, (_, group) => (groups[Number(group)] ?? '').trim())
+        : value
+      const args = Object.fromEntries(Object.entries(rule.arguments ?? {}).map(([key, value]) => [key, fill(value)]))
+      return {
+        toolCall: { id: `call_${crypto.randomUUID()}`, type: 'function', function: { name: rule.tool, arguments: JSON.stringify(args) } }
+      }
+    }
+
+    const result = last?.role === 'tool' ? messageText(last) : ''
+    let parsed: Record<string, unknown> = {}
+    try {
+      parsed = JSON.parse(result) ?? {}
+    } catch {
+      // Plain-text tool result
+    }
+    if (typeof parsed.error === 'string') return { reply: `Sorry, that did not work: ${parsed.error}.` }
+
+    return {
+      reply: rule.reply
+        .replaceAll('$input', input)
+        .replace(/\$result(?:\.(\w+))?/g, (_, field) => field ? String(parsed[field] ?? '') : result)
+    }
+  }
+
+  async *stream(ctx: LlmProxyContext, signal: AbortSignal): AsyncIterable<ChatCompletionChunk> {
+    const id = `chatcmpl-echo-${crypto.randomUUID()}`
+    const created = Math.floor(Date.now() / 1000)
+    const chunk = (delta: ChatCompletionChunk['choices'][number]['delta'], finishReason: string | null = null): ChatCompletionChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: ctx.request.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }]
+    })
+
+    const step = this.next(ctx.request)
+    yield chunk({ role: 'assistant', content: '' })
+
+    if ('toolCall' in step) {
+      const { id: callId, function: { name, arguments: args } } = step.toolCall
+      yield chunk({ tool_calls: [{ index: 0, id: callId, type: 'function', function: { name, arguments: '' } }] })
+      yield chunk({ tool_calls: [{ index: 0, function: { arguments: args } }] })
+      yield chunk({}, 'tool_calls')
+      return
+    }
+
+    for (const word of step.reply.match(/\S+\s*/g) ?? []) {
+      if (this.chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs))
+      if (signal.aborted) return
+      yield chunk({ content: word })
+    }
+    yield chunk({}, 'stop')
+  }
+}
+
+// Moves tool-call fragments out of a chunk into `calls`. Returns what is left for the caller,
+// or null when nothing is: ZEGO should only ever see the final answer.
+function extractToolCalls(chunk: ChatCompletionChunk, calls: Map<number, ToolCall>): ChatCompletionChunk | null {
+  const choice = chunk.choices?.[0]
+  if (!choice) return chunk
+
+  const { tool_calls: fragments, ...delta } = choice.delta ?? {}
+  // The reply goes on after the tools ran, so this is not where it finishes
+  const finishReason = choice.finish_reason === 'tool_calls' ? null : choice.finish_reason
+  if (!fragments && finishReason === choice.finish_reason) return chunk
+
+  for (const fragment of fragments ?? []) {
+    const call = calls.get(fragment.index) ?? { id: '', type: 'function', function: { name: '', arguments: '' } }
+    if (fragment.id) call.id = fragment.id
+    if (fragment.function?.name) call.function.name = fragment.function.name
+    if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments
+    calls.set(fragment.index, call)
+  }
+
+  if (!delta.content && finishReason === null && !chunk.usage) return null
+  return { ...chunk, choices: [{ ...choice, delta, finish_reason: finishReason }] }
+}
+
+export interface LlmProxyOptions {
+  tools?: ToolRegistry
+  // Model calls that may run tools before it has to answer with what it has
+  maxToolRounds?: number
+}
+
+export class LlmProxy {
+  private middleware: LlmMiddleware[] = []
+
+  constructor(readonly upstream: LlmUpstream, private options: LlmProxyOptions = {}) {}
+
+  use(middleware: LlmMiddleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  // Runs the chain around the upstream call(s) and yields the chunks to send back to the caller.
+  // With tools, each round's tool calls are executed here and fed back until the model answers.
+  async *run(ctx: LlmProxyContext, signal: AbortSignal): AsyncGenerator<ChatCompletionChunk> {
+    try {
+      for (const middleware of this.middleware) {
+        await middleware.onRequest?.(ctx)
+      }
+
+      const { tools, maxToolRounds = 3 } = this.options
+      // A request that brings its own tools is passed through for its caller to run them
+      const runTools = !!tools?.size && ctx.request.tools === undefined
+      if (runTools) ctx.request = { ...ctx.request, tools: tools!.definitions() }
+
+      for (let round = 0; ; round++) {
+        const calls = new Map<number, ToolCall>()
+
+        for await (const upstreamChunk of this.upstream.stream(ctx, signal)) {
+          if (hasOutput(upstreamChunk)) ctx.firstChunkAt ??= Date.now()
+
+          let chunk: ChatCompletionChunk | null = runTools ? extractToolCalls(upstreamChunk, calls) : upstreamChunk
+          for (const middleware of this.middleware) {
+            if (!chunk || !middleware.onChunk) continue
+            const result = middleware.onChunk(chunk, ctx)
+            if (result !== undefined) chunk = result
+          }
+          if (!chunk) continue
+
+          const choice = chunk.choices?.[0]
+          if (typeof choice?.delta?.content === 'string') ctx.content += choice.delta.content
+          if (choice?.finish_reason) ctx.finishReason = choice.finish_reason
+          yield chunk
+        }
+
+        if (!runTools || calls.size === 0 || round >= maxToolRounds) break
+
+        const toolCalls = Array.from(calls.entries())
+          .sort(([left], [right]) => left - right)
+          .map(([index, call]) => ({ ...call, id: call.id || `call_${round}_${index}` }))
+        const toolContext = {
+          agentId: ctx.agentId,
+          instanceId: ctx.agentInfo.agent_instance_id,
+          userId: ctx.agentInfo.user_id,
+          signal
+        }
+        const invocations = await Promise.all(toolCalls.map(call => tools!.execute(call, toolContext)))
+        if (signal.aborted) return
+        for (const invocation of invocations) invocation.round = ctx.agentInfo.round_id
+        ctx.toolCalls.push(...invocations)
+
+        ctx.request = {
+          ...ctx.request,
+          messages: [
+            ...ctx.request.messages,
+            { role: 'assistant', content: null, tool_calls: toolCalls },
+            ...invocations.map(invocation => ({
+              role: 'tool' as const,
+              tool_call_id: invocation.id,
+              content: toolResultContent(invocation)
+            }))
+          ],
+          // Out of rounds: the next call has to answer
+          ...(round + 1 >= maxToolRounds && { tool_choice: 'none' })
+        }
+      }
+    } catch (error) {
+      ctx.error = error
+      throw error
+    } finally {
+      for (const middleware of [...this.middleware].reverse()) {
+        try {
+          await middleware.onComplete?.(ctx)
+        } catch (error) {
+          logger.error('LLM proxy middleware failed', { middleware: middleware.name, requestId: ctx.requestId, error })
+        }
+      }
+    }
+  }
+}
+
+// Folds streamed chunks into the non-streaming chat.completion response shape.
+export function toCompletion(ctx: LlmProxyContext, id: string) {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(ctx.startedAt / 1000),
+    model: ctx.target.model ?? ctx.request.model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content: ctx.content },
+      finish_reason: ctx.finishReason ?? 'stop'
+    }]
+  }
+}
+
+export function createUpstream(kind: 'http' | 'echo', options: { timeoutMs: number; scriptPath?: string }): LlmUpstream {
+  if (kind === 'http') return new HttpUpstream(options.timeoutMs)
+  return options.scriptPath ? ScriptedUpstream.fromFile(options.scriptPath) : new ScriptedUpstream()
+}
@@ -0,0 +1,102 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+// JSON-lines logger. Every line carries the current request's context (requestId)
+// via AsyncLocalStorage, and fields are redacted before they are written.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+export type LogFields = Record<string, unknown>
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 }
+
+const SECRET_KEY = /secret|token|api_?key|password|authorization|signature|cookie/i
+// Anything the user said or the agent answered; logged as a length only
+const USER_TEXT_KEYS = new Set(['text', 'Text', 'message', 'content', 'Content', 'prompt', 'SystemPrompt', 'Messages'])
+const MAX_DEPTH = 6
+
+const context = new AsyncLocalStorage<LogFields>()
+
+let minLevel = LEVELS.info
+let logUserText = false
+
+export function configureLogger(options: { level: LogLevel; logUserText?: boolean }): void {
+  minLevel = LEVELS[options.level]
+  logUserText = options.logUserText ?? false
+}
+
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn)
+}
+
+function serializeError(error: Error): LogFields {
+  const fields: LogFields = { name: error.name, message: error.message }
+  for (const key of ['code', 'Code', 'RequestId', 'action', 'status']) {
+    const value = (error as unknown as Record<string, unknown>)[key]
+    if (value !== undefined) fields[key] = value
+  }
+  if (minLevel <= LEVELS.debug && error.stack) fields.stack = error.stack
+  return fields
+}
+
+export function redact(value: unknown, key = '', depth = 0): unknown {
+  if (value === null || value === undefined) return value
+  if (key && SECRET_KEY.test(key)) return '[REDACTED]'
+  if (key && !logUserText && USER_TEXT_KEYS.has(key)) {
+    if (typeof value === 'string') return `[${value.length} chars]`
+    if (Array.isArray(value)) return `[${value.length} items]`
+    return '[REDACTED]'
+  }
+  if (value instanceof Error) {
+    // An error's message is ours (or ZEGO's), not user text
+    const { message, ...rest } = serializeError(value)
+    return { message, ...(redact(rest, '', depth) as LogFields) }
+  }
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  if (Array.isArray(value)) return value.map(item => redact(item, '', depth + 1))
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redact(item, name, depth + 1)]))
+  }
+  return value
+}
+
+export class Logger {
+  constructor(private bindings: LogFields = {}) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings })
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields)
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields)
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields)
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields)
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, msg: string, fields?: LogFields): void {
+    if (LEVELS[level] < minLevel) return
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(redact({ ...this.bindings, ...context.getStore(), ...fields }) as LogFields)
+    }
+    const line = JSON.stringify(entry) + '\n'
+    if (LEVELS[level] >= LEVELS.warn) {
+      process.stderr.write(line)
+    } else {
+      process.stdout.write(line)
+    }
+  }
+}
+
+export const logger = new Logger()
@@ -0,0 +1,415 @@
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import axios from 'axios'
+import { logger } from './logger.js'
+import { estimateTokens } from './history.js'
+import type { LLMConfig, MemoryEntry, Transcript, TranscriptTurn } from './types.js'
+
+// Long-term memory. When a session ends its transcript is summarized into topics and durable
+// user facts, stored per user, and rendered into the system prompt of that user's next sessions.
+
+export interface UserMemoryStore {
+  get(userId: string): Promise<MemoryEntry[]>
+  save(userId: string, entries: MemoryEntry[]): Promise<void>
+  check(): Promise<void>
+}
+
+export class MemoryUserMemoryStore implements UserMemoryStore {
+  private entries: Map<string, MemoryEntry[]> = new Map()
+
+  async get(userId: string): Promise<MemoryEntry[]> {
+    return structuredClone(this.entries.get(userId) ?? [])
+  }
+
+  async save(userId: string, entries: MemoryEntry[]): Promise<void> {
+    this.entries.set(userId, structuredClone(entries))
+  }
+
+  async check(): Promise<void> {}
+}
+
+// One file per user; writes go through UserMemoryManager, which already serializes them per user.
+export class JsonFileUserMemoryStore implements UserMemoryStore {
+  constructor(private dir: string) {}
+
+  async check(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.access(this.dir, fs.constants.W_OK)
+  }
+
+  private filePath(userId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(userId)}.json`)
+  }
+
+  async get(userId: string): Promise<MemoryEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(userId), 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async save(userId: string, entries: MemoryEntry[]): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const target = this.filePath(userId)
+    const temp = `${target}.tmp`
+    await fs.writeFile(temp, JSON.stringify(entries, null, 2))
+    await fs.rename(temp, target)
+  }
+}
+
+export function createUserMemoryStore(kind: string, dataDir: string): UserMemoryStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryUserMemoryStore()
+    case 'json':
+      return new JsonFileUserMemoryStore(path.join(dataDir, 'memories'))
+    default:
+      throw new Error(`Unknown memory store: ${kind}`)
+  }
+}
+
+export interface MemoryExtraction {
+  summary: string
+  topics: string[]
+  facts: string[]
+}
+
+export interface Summarizer {
+  summarize(transcript: Transcript, llm?: LLMConfig): Promise<MemoryExtraction>
+}
+
+const MAX_TOPICS = 5
+const MAX_FACTS_PER_SESSION = 8
+const MAX_FACT_LENGTH = 200
+const MAX_SUMMARY_LENGTH = 400
+
+const STOPWORDS = new Set((
+  'about above after again against also because been before being below between both could does doing down during each ' +
+  'from further have having here into just like more most much must need only other over really same should some such than ' +
+  'that their them then there these they thing things think this those through under until very want what when where which ' +
+  'while will with would your yours yourself hello thanks thank please okay sure know tell good great well right going ' +
+  'maybe something anything nothing make made help said says answer question name love loves likes'
+).split(' '))
+
+const FACT_PATTERNS: { pattern: RegExp; fact: (match: RegExpMatchArray) => string }[] = [
+  { pattern: /\bmy name is (\p{L}[\p{L}'-]*)/iu, fact: m => `The user's name is ${m[1]}` },
+  { pattern: /\bcall me (\p{L}[\p{L}'-]*)/iu, fact: m => `The user wants to be called ${m[1]}` },
+  { pattern: /\bi live in ([^.!?,;]{2,40})/i, fact: m => `The user lives in ${m[1]}` },
+  { pattern: /\bi work (as|at|in|for) ([^.!?,;]{2,60})/i, fact: m => `The user works ${m[1]!.toLowerCase()} ${m[2]}` },
+  { pattern: /\bi(?: am|'m) (a|an) ([^.!?,;]{3,40})/i, fact: m => `The user is ${m[1]!.toLowerCase()} ${m[2]}` },
+  {
+    pattern: /\bi (?:really )?(like|love|enjoy|prefer|hate|dislike) ([^.!?,;]{3,60})/i,
+    fact: m => `The user ${m[1]!.toLowerCase()}s ${m[2]}`
+  }
+]
+
+function clip(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  return clean.length > length ? `${clean.slice(0, length - 1)}…` : clean
+}
+
+// Offline fallback: keyword topics, pattern-matched facts and a one-line summary.
+export class HeuristicSummarizer implements Summarizer {
+  async summarize(transcript: Transcript): Promise<MemoryExtraction> {
+    const userTurns = transcript.turns.filter(turn => turn.role === 'user')
+
+    const counts = new Map<string, number>()
+    for (const turn of transcript.turns) {
+      for (const word of turn.text.toLowerCase().match(/[\p{L}][\p{L}'-]{3,}/gu) ?? []) {
+        if (!STOPWORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + (turn.role === 'user' ? 2 : 1))
+      }
+    }
+    const topics = Array.from(counts)
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TOPICS)
+      .map(([word]) => word)
+
+    const facts: string[] = []
+    for (const turn of userTurns) {
+      for (const sentence of turn.text.split(/(?<=[.!?])\s+/)) {
+        for (const { pattern, fact } of FACT_PATTERNS) {
+          const match = sentence.match(pattern)
+          if (match) facts.push(clip(fact(match).trim(), MAX_FACT_LENGTH))
+        }
+      }
+    }
+
+    const opening = userTurns[0] ? ` The user opened with: "${clip(userTurns[0].text, 120)}"` : ''
+    const about = topics.length > 0 ? ` about ${topics.slice(0, 3).join(', ')}` : ''
+    return {
+      summary: `Conversation of ${transcript.turns.length} turns${about}.${opening}`,
+      topics,
+      facts: facts.slice(0, MAX_FACTS_PER_SESSION)
+    }
+  }
+}
+
+const EXTRACTION_PROMPT = `You maintain long-term memory for a voice assistant. Read the conversation and reply with JSON only:
+{"summary": "<one or two sentences on what was discussed and any outcome>",
+ "topics": ["<up to ${MAX_TOPICS} short lowercase topics>"],
+ "facts": ["<durable facts about the user worth remembering next time, e.g. name, preferences, ongoing goals>"]}
+Facts must be about the user, stated in the third person ("The user ..."), and exclude anything temporary or sensitive
+(health, finances, credentials). Use an empty list when there is nothing worth keeping.`
+
+function renderTranscript(turns: TranscriptTurn[]): string {
+  return turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n')
+}
+
+function asStringList(value: unknown, limit: number, length: number): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .slice(0, limit)
+    .map(item => clip(item, length))
+}
+
+// Asks the session's own LLM (any OpenAI-compatible chat completions endpoint) for the extraction.
+export class LlmSummarizer implements Summarizer {
+  constructor(private timeoutMs: number, private maxTranscriptTokens = 3000) {}
+
+  async summarize(transcript: Transcript, llm?: LLMConfig): Promise<MemoryExtraction> {
+    if (!llm?.Url) throw new Error('No LLM configured for summarization')
+
+    // A conversation too long to send whole is cut to its newest turns
+    const turns: TranscriptTurn[] = []
+    let tokens = 0
+    for (const turn of [...transcript.turns].reverse()) {
+      tokens += estimateTokens(turn.text)
+      if (tokens > this.maxTranscriptTokens) break
+      turns.unshift(turn)
+    }
+
+    const response = await axios.post(llm.Url, {
+      model: llm.Model,
+      temperature: 0.2,
+      max_tokens: 500,
+      stream: false,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        { role: 'user', content: renderTranscript(turns) }
+      ]
+    }, {
+      timeout: this.timeoutMs,
+      headers: llm.ApiKey ? { Authorization: `Bearer ${llm.ApiKey}` } : {}
+    })
+
+    const content: string = response.data?.choices?.[0]?.message?.content ?? ''
+    const json = content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1)
+    const parsed = JSON.parse(json)
+    if (typeof parsed.summary !== 'string') throw new Error('LLM reply has no summary')
+
+    return {
+      summary: clip(parsed.summary, MAX_SUMMARY_LENGTH),
+      topics: asStringList(parsed.topics, MAX_TOPICS, 40).map(topic => topic.toLowerCase()),
+      facts: asStringList(parsed.facts, MAX_FACTS_PER_SESSION, MAX_FACT_LENGTH)
+    }
+  }
+}
+
+// Tries the LLM first and falls back to the heuristic when it is unreachable or replies badly.
+export class FallbackSummarizer implements Summarizer {
+  constructor(private primary: Summarizer, private fallback: Summarizer) {}
+
+  async summarize(transcript: Transcript, llm?: LLMConfig): Promise<MemoryExtraction> {
+    try {
+      return await this.primary.summarize(transcript, llm)
+    } catch (error) {
+      logger.warn('LLM summarization failed, using heuristic summary', { instanceId: transcript.instanceId, error })
+      return this.fallback.summarize(transcript)
+    }
+  }
+}
+
+export function createSummarizer(kind: string, timeoutMs: number): Summarizer | null {
+  switch (kind) {
+    case 'off':
+      return null
+    case 'heuristic':
+      return new HeuristicSummarizer()
+    case 'llm':
+      return new FallbackSummarizer(new LlmSummarizer(timeoutMs), new HeuristicSummarizer())
+    default:
+      throw new Error(`Unknown memory summarizer: ${kind}`)
+  }
+}
+
+export interface MemoryLimits {
+  maxFacts: number
+  maxSummaries: number
+}
+
+export class MemoryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Memory ${id} not found`)
+    this.name = 'MemoryNotFoundError'
+  }
+}
+
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+export class UserMemoryManager {
+  private queues: Map<string, Promise<unknown>> = new Map()
+
+  constructor(private store: UserMemoryStore, private summarizer: Summarizer | null, private limits: MemoryLimits) {}
+
+  check(): Promise<void> {
+    return this.store.check()
+  }
+
+  // Runs read-modify-write updates for one user strictly one after another.
+  private update<T>(userId: string, change: (entries: MemoryEntry[]) => T): Promise<T> {
+    const previous = this.queues.get(userId) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(async () => {
+      const entries = await this.store.get(userId)
+      const result = change(entries)
+      await this.store.save(userId, this.prune(entries))
+      return result
+    })
+    const settled = next.finally(() => {
+      if (this.queues.get(userId) === settled) this.queues.delete(userId)
+    })
+    this.queues.set(userId, settled)
+    return next
+  }
+
+  // Over the limits, the oldest automatically extracted entries go first; user-written ones are kept.
+  private prune(entries: MemoryEntry[]): MemoryEntry[] {
+    for (const [kind, limit] of [['fact', this.limits.maxFacts], ['summary', this.limits.maxSummaries]] as const) {
+      let excess = entries.filter(entry => entry.kind === kind).length - limit
+      const removable = entries
+        .filter(entry => entry.kind === kind)
+        .sort((a, b) => (a.source === b.source ? a.updatedAt - b.updatedAt : a.source === 'auto' ? -1 : 1))
+      for (const entry of removable) {
+        if (excess-- <= 0) break
+        entries.splice(entries.indexOf(entry), 1)
+      }
+    }
+    return entries
+  }
+
+  async remember(transcript: Transcript, llm?: LLMConfig): Promise<MemoryEntry[]> {
+    if (!this.summarizer || !transcript.turns.some(turn => turn.role === 'user')) return []
+
+    const extraction = await this.summarizer.summarize(transcript, llm)
+    const now = Date.now()
+
+    return this.update(transcript.userId, entries => {
+      const known = new Set(entries.filter(entry => entry.kind === 'fact').map(entry => normalizeFact(entry.text)))
+      const added: MemoryEntry[] = []
+
+      const add = (kind: MemoryEntry['kind'], text: string, topics: string[]) => {
+        const entry: MemoryEntry = {
+          id: `mem_${crypto.randomUUID()}`,
+          userId: transcript.userId,
+          kind,
+          text,
+          topics,
+          source: 'auto',
+          instanceId: transcript.instanceId,
+          createdAt: now,
+          updatedAt: now
+        }
+        entries.push(entry)
+        added.push(entry)
+      }
+
+      add('summary', extraction.summary, extraction.topics)
+      for (const fact of extraction.facts) {
+        const key = normalizeFact(fact)
+        if (!key || known.has(key)) continue
+        known.add(key)
+        add('fact', fact, [])
+      }
+
+      logger.info('Long-term memory updated', {
+        instanceId: transcript.instanceId,
+        facts: added.length - 1,
+        topics: extraction.topics.length
+      })
+      return added
+    })
+  }
+
+  async list(userId: string): Promise<MemoryEntry[]> {
+    const entries = await this.store.get(userId)
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  add(userId: string, text: string): Promise<MemoryEntry> {
+    const now = Date.now()
+    const entry: MemoryEntry = {
+      id: `mem_${crypto.randomUUID()}`,
+      userId,
+      kind: 'fact',
+      text,
+      topics: [],
+      source: 'user',
+      createdAt: now,
+      updatedAt: now
+    }
+    return this.update(userId, entries => {
+      entries.push(entry)
+      return entry
+    })
+  }
+
+  edit(userId: string, id: string, text: string): Promise<MemoryEntry> {
+    return this.update(userId, entries => {
+      const entry = entries.find(candidate => candidate.id === id)
+      if (!entry) throw new MemoryNotFoundError(id)
+      entry.text = text
+      entry.source = 'user'
+      entry.updatedAt = Date.now()
+      return entry
+    })
+  }
+
+  remove(userId: string, id: string): Promise<void> {
+    return this.update(userId, entries => {
+      const index = entries.findIndex(candidate => candidate.id === id)
+      if (index < 0) throw new MemoryNotFoundError(id)
+      entries.splice(index, 1)
+    })
+  }
+
+  clear(userId: string): Promise<number> {
+    return this.update(userId, entries => entries.splice(0).length)
+  }
+
+  // Compact block for the system prompt: facts first, then the newest conversation summaries,
+  // stopping at the token budget. Empty when there is nothing to remember.
+  async promptBlock(userId: string, tokenBudget: number): Promise<string> {
+    const entries = await this.list(userId)
+    const facts = entries.filter(entry => entry.kind === 'fact')
+    const summaries = entries.filter(entry => entry.kind === 'summary')
+    if (facts.length === 0 && summaries.length === 0) return ''
+
+    const header = 'What you remember about this user from earlier conversations (use it when relevant, do not recite it):'
+    const lines: string[] = []
+    let tokens = estimateTokens(header)
+
+    const take = (line: string): boolean => {
+      const cost = estimateTokens(line) + 1
+      if (tokens + cost > tokenBudget) return false
+      tokens += cost
+      lines.push(line)
+      return true
+    }
+
+    for (const fact of facts) {
+      if (!take(`- ${fact.text}`)) break
+    }
+    for (const summary of summaries) {
+      const day = new Date(summary.createdAt).toISOString().slice(0, 10)
+      if (!take(`- Earlier conversation (${day}): ${summary.text}`)) break
+    }
+
+    return lines.length > 0 ? [header, ...lines].join('\n') : ''
+  }
+}
@@ -0,0 +1,202 @@
+// Minimal Prometheus registry: counters, gauges and histograms rendered in the
+// text exposition format (version 0.0.4). Modules import `metrics` and register
+// what they need; registering the same name twice returns the existing metric.
+
+export type Labels = Record<string, string | number>
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  if (Number.isNaN(value)) return 'NaN'
+  return String(value)
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(',')}}`
+}
+
+interface MetricOptions {
+  name: string
+  help: string
+  labelNames?: string[]
+}
+
+abstract class Metric {
+  readonly name: string
+  readonly help: string
+  protected labelNames: string[]
+
+  constructor(options: MetricOptions, readonly type: 'counter' | 'gauge' | 'histogram') {
+    this.name = options.name
+    this.help = options.help
+    this.labelNames = options.labelNames ?? []
+  }
+
+  // Orders label values by the declared names so each series has one key.
+  protected seriesKey(labels: Labels = {}): string {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) throw new Error(`Unknown label ${name} for metric ${this.name}`)
+    }
+    return JSON.stringify(this.labelNames.map(name => String(labels[name] ?? '')))
+  }
+
+  protected labelsFromKey(key: string): Labels {
+    const values: string[] = JSON.parse(key)
+    return Object.fromEntries(this.labelNames.map((name, index) => [name, values[index] ?? '']))
+  }
+
+  abstract samples(): string[]
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples()
+    ].join('\n')
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, number> = new Map()
+
+  constructor(options: MetricOptions) {
+    super(options, 'counter')
+  }
+
+  inc(labels?: Labels, amount = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`)
+    const key = this.seriesKey(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + amount)
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${formatLabels(this.labelsFromKey(key))} ${formatValue(value)}`)
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, number> = new Map()
+  private collector?: (gauge: Gauge) => void
+
+  // `collect` runs at scrape time, for values that are cheaper to read than to track
+  constructor(options: MetricOptions & { collect?: (gauge: Gauge) => void }) {
+    super(options, 'gauge')
+    this.collector = options.collect
+  }
+
+  set(labels: Labels | undefined, value: number): void {
+    this.values.set(this.seriesKey(labels), value)
+  }
+
+  inc(labels?: Labels, amount = 1): void {
+    const key = this.seriesKey(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + amount)
+  }
+
+  dec(labels?: Labels, amount = 1): void {
+    this.inc(labels, -amount)
+  }
+
+  samples(): string[] {
+    this.collector?.(this)
+    return Array.from(this.values, ([key, value]) => `${this.name}${formatLabels(this.labelsFromKey(key))} ${formatValue(value)}`)
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, HistogramSeries> = new Map()
+  private buckets: number[]
+
+  constructor(options: MetricOptions & { buckets?: number[] }) {
+    super(options, 'histogram')
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels | undefined, value: number): void {
+    const key = this.seriesKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]!++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  // Returns a function that observes the seconds elapsed since startTimer was called.
+  startTimer(labels?: Labels): (extraLabels?: Labels) => number {
+    const startedAt = process.hrtime.bigint()
+    return extraLabels => {
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9
+      this.observe({ ...labels, ...extraLabels }, seconds)
+      return seconds
+    }
+  }
+
+  samples(): string[] {
+    const lines: string[] = []
+    for (const [key, series] of this.series) {
+      const labels = this.labelsFromKey(key)
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${series.buckets[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`)
+    }
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map()
+
+  private register<T extends Metric>(name: string, type: Metric['type'], create: () => T): T {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (existing.type !== type) throw new Error(`Metric ${name} is already registered as a ${existing.type}`)
+      return existing as T
+    }
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+
+  counter(options: MetricOptions): Counter {
+    return this.register(options.name, 'counter', () => new Counter(options))
+  }
+
+  gauge(options: MetricOptions & { collect?: (gauge: Gauge) => void }): Gauge {
+    return this.register(options.name, 'gauge', () => new Gauge(options))
+  }
+
+  histogram(options: MetricOptions & { buckets?: number[] }): Histogram {
+    return this.register(options.name, 'histogram', () => new Histogram(options))
+  }
+
+  render(): string {
+    return Array.from(this.metrics.values(), metric => metric.render()).join('\n') + '\n'
+  }
+}
+
+export const metrics = new MetricsRegistry()
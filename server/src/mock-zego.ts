@@ -0,0 +1,257 @@
+import express, { type Request, type Response } from 'express'
+import crypto from 'crypto'
+import axios from 'axios'
+import dotenv from 'dotenv'
+import { verifyZegoSignature } from './zego-signature.js'
+import { createCallbackSignature } from './callbacks.js'
+import type { CallbackEventType } from './types.js'
+
+dotenv.config()
+
+// Stand-in for the ZEGO AI Agent server API, for offline development and CI.
+// Point ZEGO_API_BASE_URL at it, e.g. ZEGO_API_BASE_URL=http://localhost:8090/
+
+const MOCK_CONFIG = {
+  APP_ID: process.env.ZEGO_APP_ID || '',
+  SERVER_SECRET: process.env.ZEGO_SERVER_SECRET || '',
+  PORT: parseInt(process.env.MOCK_ZEGO_PORT || '8090', 10),
+  CALLBACK_URL: process.env.MOCK_CALLBACK_URL || `http://localhost:${process.env.PORT || '8080'}/api/callbacks`,
+  CALLBACK_DELAY_MS: parseInt(process.env.MOCK_CALLBACK_DELAY_MS || '200', 10)
+}
+
+// Codes returned by the mock only; they are not taken from the ZEGO error code table.
+const MOCK_CODES = {
+  OK: 0,
+  INVALID_SIGNATURE: 100000004,
+  UNKNOWN_ACTION: 100000006,
+  INVALID_PARAMS: 410000001,
+  AGENT_EXISTS: 410001001,
+  AGENT_NOT_FOUND: 410001002,
+  INSTANCE_NOT_FOUND: 410001008
+}
+
+interface MockInstance {
+  AgentInstanceId: string
+  AgentId: string
+  UserId: string
+  RoomId: string
+  AgentUserId: string
+  Config: Record<string, any>
+  CreatedAt: number
+  Sequence: number
+}
+
+interface ScriptedEvent {
+  Event: CallbackEventType
+  Data: Record<string, unknown>
+  DelayMs?: number
+}
+
+const agents: Map<string, Record<string, any>> = new Map()
+const instances: Map<string, MockInstance> = new Map()
+
+type ActionHandler = (body: Record<string, any>) => { Code: number; Message?: string; Data?: unknown }
+
+const actions: Record<string, ActionHandler> = {
+  RegisterAgent(body) {
+    if (!body.AgentId) return { Code: MOCK_CODES.INVALID_PARAMS, Message: 'AgentId required' }
+    if (agents.has(body.AgentId)) return { Code: MOCK_CODES.AGENT_EXISTS, Message: 'Agent already exists' }
+    agents.set(body.AgentId, body)
+    return { Code: MOCK_CODES.OK }
+  },
+
+  UpdateAgent(body) {
+    const agent = agents.get(body.AgentId)
+    if (!agent) return { Code: MOCK_CODES.AGENT_NOT_FOUND, Message: 'Agent not found' }
+    agents.set(body.AgentId, { ...agent, ...body })
+    return { Code: MOCK_CODES.OK }
+  },
+
+  UnregisterAgent(body) {
+    if (!agents.delete(body.AgentId)) return { Code: MOCK_CODES.AGENT_NOT_FOUND, Message: 'Agent not found' }
+    return { Code: MOCK_CODES.OK }
+  },
+
+  QueryAgents(body) {
+    const offset = Number(body.Offset) || 0
+    const limit = Number(body.Limit) || 10
+    const all = Array.from(agents.values())
+    return { Code: MOCK_CODES.OK, Data: { Total: all.length, Agents: all.slice(offset, offset + limit) } }
+  },
+
+  CreateAgentInstance(body) {
+    if (!agents.has(body.AgentId)) return { Code: MOCK_CODES.AGENT_NOT_FOUND, Message: 'Agent not found' }
+    if (!body.UserId || !body.RTC?.RoomId) return { Code: MOCK_CODES.INVALID_PARAMS, Message: 'UserId and RTC.RoomId required' }
+
+    const instance: MockInstance = {
+      AgentInstanceId: `mock_instance_${crypto.randomBytes(6).toString('hex')}`,
+      AgentId: body.AgentId,
+      UserId: body.UserId,
+      RoomId: body.RTC.RoomId,
+      AgentUserId: body.RTC.AgentUserId || '',
+      Config: body,
+      CreatedAt: Date.now(),
+      Sequence: 0
+    }
+    instances.set(instance.AgentInstanceId, instance)
+    return { Code: MOCK_CODES.OK, Data: { AgentInstanceId: instance.AgentInstanceId } }
+  },
+
+  UpdateAgentInstance(body) {
+    const instance = instances.get(body.AgentInstanceId)
+    if (!instance) return { Code: MOCK_CODES.INSTANCE_NOT_FOUND, Message: 'Instance not found' }
+    instance.Config = { ...instance.Config, ...body }
+    return { Code: MOCK_CODES.OK }
+  },
+
+  DeleteAgentInstance(body) {
+    if (!instances.delete(body.AgentInstanceId)) return { Code: MOCK_CODES.INSTANCE_NOT_FOUND, Message: 'Instance not found' }
+    return { Code: MOCK_CODES.OK }
+  },
+
+  QueryAgentInstanceStatus(body) {
+    const instance = instances.get(body.AgentInstanceId)
+    if (!instance) return { Code: MOCK_CODES.INSTANCE_NOT_FOUND, Message: 'Instance not found' }
+    return {
+      Code: MOCK_CODES.OK,
+      Data: {
+        AgentInstanceId: instance.AgentInstanceId,
+        AgentId: instance.AgentId,
+        RoomId: instance.RoomId,
+        UserId: instance.UserId,
+        Status: 2,
+        CreatedTimestamp: Math.floor(instance.CreatedAt / 1000)
+      }
+    }
+  },
+
+  SendAgentInstanceLLM(body) {
+    const instance = instances.get(body.AgentInstanceId)
+    if (!instance) return { Code: MOCK_CODES.INSTANCE_NOT_FOUND, Message: 'Instance not found' }
+    if (!body.Text) return { Code: MOCK_CODES.INVALID_PARAMS, Message: 'Text required' }
+
+    playScript(instance, replyScript(`You said: ${body.Text}`))
+    return { Code: MOCK_CODES.OK }
+  },
+
+  SendAgentInstanceTTS(body) {
+    const instance = instances.get(body.AgentInstanceId)
+    if (!instance) return { Code: MOCK_CODES.INSTANCE_NOT_FOUND, Message: 'Instance not found' }
+    if (!body.Text) return { Code: MOCK_CODES.INVALID_PARAMS, Message: 'Text required' }
+
+    playScript(instance, [
+      { Event: 'AgentSpeakAction', Data: { Action: 1 } },
+      { Event: 'AgentSpeakAction', Data: { Action: 2 } }
+    ])
+    return { Code: MOCK_CODES.OK }
+  },
+
+  InterruptAgentInstance(body) {
+    const instance = instances.get(body.AgentInstanceId)
+    if (!instance) return { Code: MOCK_CODES.INSTANCE_NOT_FOUND, Message: 'Instance not found' }
+
+    playScript(instance, [{ Event: 'Interrupted', Data: {}, DelayMs: 0 }])
+    return { Code: MOCK_CODES.OK }
+  }
+}
+
+function replyScript(reply: string): ScriptedEvent[] {
+  const messageId = `mock_msg_${Date.now()}`
+  const words = reply.split(/(?<= )/)
+
+  return [
+    { Event: 'AgentSpeakAction', Data: { Action: 1 } },
+    ...words.map((word, index): ScriptedEvent => ({
+      Event: 'LLMResult',
+      Data: { Text: word, MessageId: messageId, EndFlag: index === words.length - 1 }
+    })),
+    { Event: 'AgentSpeakAction', Data: { Action: 2 } }
+  ]
+}
+
+async function postCallback(instance: MockInstance, event: ScriptedEvent): Promise<void> {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const nonce = crypto.randomBytes(8).toString('hex')
+
+  try {
+    await axios.post(MOCK_CONFIG.CALLBACK_URL, {
+      AppId: Number(MOCK_CONFIG.APP_ID),
+      AgentInstanceId: instance.AgentInstanceId,
+      AgentUserId: instance.AgentUserId,
+      RoomId: instance.RoomId,
+      Sequence: ++instance.Sequence,
+      Event: event.Event,
+      Data: event.Data,
+      Timestamp: timestamp,
+      Nonce: nonce,
+      Signature: createCallbackSignature(MOCK_CONFIG.SERVER_SECRET, timestamp, nonce)
+    }, { timeout: 5000 })
+  } catch (error: any) {
+    console.warn('Mock callback failed:', event.Event, error.response?.status || error.message)
+  }
+}
+
+async function playScript(instance: MockInstance, script: ScriptedEvent[]): Promise<void> {
+  for (const event of script) {
+    await new Promise(resolve => setTimeout(resolve, event.DelayMs ?? MOCK_CONFIG.CALLBACK_DELAY_MS))
+    if (!instances.has(instance.AgentInstanceId)) return
+    await postCallback(instance, event)
+  }
+}
+
+const app = express()
+app.use(express.json())
+
+app.post('/', (req: Request, res: Response): void => {
+  const requestId = crypto.randomUUID()
+  const action = String(req.query.Action || '')
+  const verification = verifyZegoSignature(req.query, MOCK_CONFIG.APP_ID, MOCK_CONFIG.SERVER_SECRET)
+
+  if (!verification.valid) {
+    res.json({ Code: MOCK_CODES.INVALID_SIGNATURE, Message: verification.reason, RequestId: requestId })
+    return
+  }
+
+  const handler = actions[action]
+  if (!handler) {
+    res.json({ Code: MOCK_CODES.UNKNOWN_ACTION, Message: `Unknown action: ${action}`, RequestId: requestId })
+    return
+  }
+
+  const result = handler(req.body || {})
+  console.log('Mock ZEGO:', action, result.Code)
+  res.json({ Message: result.Code === 0 ? 'success' : '', ...result, RequestId: requestId })
+})
+
+// Test hooks: inspect state and push scripted callbacks for an instance.
+app.get('/mock/state', (_req: Request, res: Response): void => {
+  res.json({ agents: Array.from(agents.values()), instances: Array.from(instances.values()) })
+})
+
+app.post('/mock/instances/:instanceId/callbacks', (req: Request, res: Response): void => {
+  const instance = instances.get(req.params.instanceId as string)
+
+  if (!instance) {
+    res.status(404).json({ error: 'Instance not found' })
+    return
+  }
+
+  const events: ScriptedEvent[] = Array.isArray(req.body?.events) ? req.body.events : []
+  if (events.length === 0) {
+    res.status(400).json({ error: 'events required' })
+    return
+  }
+
+  playScript(instance, events)
+  res.json({ success: true, queued: events.length })
+})
+
+app.post('/mock/reset', (_req: Request, res: Response): void => {
+  agents.clear()
+  instances.clear()
+  res.json({ success: true })
+})
+
+app.listen(MOCK_CONFIG.PORT, () => {
+  console.log(`Mock ZEGO AI Agent API running on port ${MOCK_CONFIG.PORT}, callbacks to ${MOCK_CONFIG.CALLBACK_URL}`)
+})
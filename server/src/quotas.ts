@@ -0,0 +1,238 @@
+import type { SessionRecord } from './types.js'
+
+export interface CounterWindow {
+  count: number
+  // Epoch ms at which the window closes and the counter starts over
+  resetAt: number
+}
+
+// Fixed-window counters. Swap the in-memory store for a shared one (e.g. Redis)
+// when several server processes need to enforce the same limits.
+export interface CounterStore {
+  increment(key: string, amount: number, windowMs: number): Promise<CounterWindow>
+  peek(key: string): Promise<CounterWindow | null>
+}
+
+export class MemoryCounterStore implements CounterStore {
+  private windows: Map<string, CounterWindow> = new Map()
+  private lastSweep = 0
+
+  async increment(key: string, amount: number, windowMs: number): Promise<CounterWindow> {
+    const now = Date.now()
+    this.sweep(now)
+
+    let window = this.windows.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs }
+      this.windows.set(key, window)
+    }
+    window.count += amount
+    return { ...window }
+  }
+
+  async peek(key: string): Promise<CounterWindow | null> {
+    const window = this.windows.get(key)
+    if (!window || window.resetAt <= Date.now()) return null
+    return { ...window }
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60000) return
+    this.lastSweep = now
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key)
+    }
+  }
+}
+
+export function createCounterStore(kind: string): CounterStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryCounterStore()
+    default:
+      throw new Error(`Unknown quota store: ${kind}`)
+  }
+}
+
+export type QuotaName = 'concurrent_sessions' | 'session_starts' | 'messages' | 'agent_minutes'
+export type QuotaScope = 'user' | 'ip'
+
+// A limit of 0 disables that quota.
+export interface QuotaLimits {
+  concurrentSessions: number
+  sessionStartsPerHour: number
+  messagesPerMinute: number
+  agentMinutesPerDay: number
+}
+
+export interface QuotaSubject {
+  userId: string
+  ip?: string
+}
+
+export interface QuotaReservation {
+  release(): void
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly quota: QuotaName,
+    readonly scope: QuotaScope,
+    readonly limit: number,
+    readonly retryAfterMs: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+// No window ends a concurrency limit; clients are told to check back shortly.
+const CONCURRENCY_RETRY_MS = 30000
+
+function startOfNextUtcDay(now: number): number {
+  const date = new Date(now)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+// Splits the time from `from` to `to` at UTC midnights, so each day is charged only its part.
+function splitByUtcDay(from: number, to: number): Array<{ day: string; ms: number; endsAt: number }> {
+  const parts: Array<{ day: string; ms: number; endsAt: number }> = []
+  for (let start = from; start < to; start = startOfNextUtcDay(start)) {
+    const endsAt = startOfNextUtcDay(start)
+    parts.push({ day: utcDay(start), ms: Math.min(endsAt, to) - start, endsAt })
+  }
+  return parts
+}
+
+export class QuotaManager {
+  constructor(
+    private store: CounterStore,
+    private limits: Record<QuotaScope, QuotaLimits>,
+    // Concurrency and in-flight agent minutes are read from the live sessions rather than counted.
+    private activeSessions: () => SessionRecord[]
+  ) {}
+
+  private scopes(subject: QuotaSubject): Array<{ scope: QuotaScope; id: string; limits: QuotaLimits }> {
+    const scopes: Array<{ scope: QuotaScope; id: string; limits: QuotaLimits }> = [
+      { scope: 'user', id: subject.userId, limits: this.limits.user }
+    ]
+    if (subject.ip) scopes.push({ scope: 'ip', id: subject.ip, limits: this.limits.ip })
+    return scopes
+  }
+
+  // Sessions being started count against concurrency from the check until they are registered
+  private reservations: Set<QuotaSubject> = new Set()
+
+  private sessionsOf(scope: QuotaScope, id: string): SessionRecord[] {
+    return this.activeSessions().filter(session => (scope === 'user' ? session.userId : session.clientIp) === id)
+  }
+
+  private reservedBy(scope: QuotaScope, id: string): number {
+    let count = 0
+    for (const subject of this.reservations) {
+      if ((scope === 'user' ? subject.userId : subject.ip) === id) count++
+    }
+    return count
+  }
+
+  // Agent time counted against today: finished sessions plus the running ones so far
+  private async agentMsUsed(scope: QuotaScope, id: string, now: number): Promise<number> {
+    const used = await this.store.peek(`agent_ms:${scope}:${id}:${utcDay(now)}`)
+    // A session running since before midnight counts from midnight
+    const today = Date.parse(utcDay(now))
+    const inFlight = this.sessionsOf(scope, id).reduce((total, session) => total + (now - Math.max(session.startedAt, today)), 0)
+    return (used?.count ?? 0) + inFlight
+  }
+
+  // Checks every limit that applies to starting a session, then counts the start. The returned
+  // reservation holds a concurrency slot and must be released once the session is registered or
+  // the start has failed.
+  async checkSessionStart(subject: QuotaSubject): Promise<QuotaReservation> {
+    const now = Date.now()
+
+    // Taken before the first await, so parallel starts cannot all pass the same check
+    for (const { scope, id, limits } of this.scopes(subject)) {
+      const active = this.sessionsOf(scope, id).length + this.reservedBy(scope, id)
+      if (limits.concurrentSessions > 0 && active >= limits.concurrentSessions) {
+        throw new QuotaExceededError('concurrent_sessions', scope, limits.concurrentSessions, CONCURRENCY_RETRY_MS,
+          `Too many active sessions (limit ${limits.concurrentSessions}). End a session before starting another.`)
+      }
+    }
+    const reserved = { ...subject }
+    this.reservations.add(reserved)
+    const reservation: QuotaReservation = { release: () => { this.reservations.delete(reserved) } }
+
+    try {
+      for (const { scope, id, limits } of this.scopes(subject)) {
+        if (limits.agentMinutesPerDay <= 0) continue
+
+        if (await this.agentMsUsed(scope, id, now) >= limits.agentMinutesPerDay * MINUTE_MS) {
+          throw new QuotaExceededError('agent_minutes', scope, limits.agentMinutesPerDay, startOfNextUtcDay(now) - now,
+            `Daily limit of ${limits.agentMinutesPerDay} agent minutes reached.`)
+        }
+      }
+
+      for (const { scope, id, limits } of this.scopes(subject)) {
+        if (limits.sessionStartsPerHour <= 0) continue
+
+        const window = await this.store.increment(`starts:${scope}:${id}`, 1, HOUR_MS)
+        if (window.count > limits.sessionStartsPerHour) {
+          throw new QuotaExceededError('session_starts', scope, limits.sessionStartsPerHour, window.resetAt - now,
+            `Too many sessions started (limit ${limits.sessionStartsPerHour} per hour).`)
+        }
+      }
+    } catch (error) {
+      reservation.release()
+      throw error
+    }
+
+    return reservation
+  }
+
+  // Checks a running session against the daily agent minutes, which one long session can use up.
+  async checkAgentMinutes(session: SessionRecord): Promise<void> {
+    const now = Date.now()
+
+    for (const { scope, id, limits } of this.scopes({ userId: session.userId, ip: session.clientIp })) {
+      if (limits.agentMinutesPerDay <= 0) continue
+
+      if (await this.agentMsUsed(scope, id, now) > limits.agentMinutesPerDay * MINUTE_MS) {
+        throw new QuotaExceededError('agent_minutes', scope, limits.agentMinutesPerDay, startOfNextUtcDay(now) - now,
+          `Daily limit of ${limits.agentMinutesPerDay} agent minutes reached.`)
+      }
+    }
+  }
+
+  async checkMessage(subject: QuotaSubject): Promise<void> {
+    const now = Date.now()
+
+    for (const { scope, id, limits } of this.scopes(subject)) {
+      if (limits.messagesPerMinute <= 0) continue
+
+      const window = await this.store.increment(`messages:${scope}:${id}`, 1, MINUTE_MS)
+      if (window.count > limits.messagesPerMinute) {
+        throw new QuotaExceededError('messages', scope, limits.messagesPerMinute, window.resetAt - now,
+          `Too many messages (limit ${limits.messagesPerMinute} per minute).`)
+      }
+    }
+  }
+
+  // Adds a finished session's duration to the daily agent-time counters, split across the UTC days it spanned.
+  async recordSessionEnd(session: SessionRecord): Promise<void> {
+    const now = Date.now()
+    const subject: QuotaSubject = { userId: session.userId, ip: session.clientIp }
+
+    for (const { day, ms, endsAt } of splitByUtcDay(session.startedAt, now)) {
+      for (const { scope, id } of this.scopes(subject)) {
+        await this.store.increment(`agent_ms:${scope}:${id}:${day}`, ms, Math.max(endsAt - now, 0))
+      }
+    }
+  }
+}
@@ -0,0 +1,85 @@
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number
+  resetTimeoutMs: number
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super('Circuit breaker is open')
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt = 0
+  private trialInFlight = false
+  private lastFailure: { at: number; message: string } | null = null
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  // Throws CircuitOpenError while open; after resetTimeoutMs lets a single trial call through.
+  acquire(): void {
+    if (this.state === 'closed') return
+
+    const elapsed = Date.now() - this.openedAt
+    if (this.state === 'open' && elapsed >= this.options.resetTimeoutMs) {
+      this.state = 'half_open'
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return
+    }
+
+    throw new CircuitOpenError(Math.max(this.options.resetTimeoutMs - elapsed, 0))
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.trialInFlight = false
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++
+    this.trialInFlight = false
+    this.lastFailure = { at: Date.now(), message: error instanceof Error ? error.message : String(error) }
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  snapshot() {
+    return {
+      state: this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half_open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      lastFailure: this.lastFailure && {
+        at: new Date(this.lastFailure.at).toISOString(),
+        message: this.lastFailure.message
+      }
+    }
+  }
+}
+
+export interface RetryOptions {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+// "Full jitter" exponential backoff: a random delay in [0, min(max, base * 2^attempt)).
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt)
+  return Math.floor(Math.random() * ceiling)
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
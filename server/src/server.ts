@@ -1,79 +1,325 @@
 import express, { type Request, type Response, type NextFunction } from 'express'
-import crypto from 'crypto'
-import axios, { type AxiosResponse } from 'axios'
 import cors from 'cors'
-import dotenv from 'dotenv'
-import { createRequire } from 'module'
-const require = createRequire(import.meta.url)
-const { generateToken04 } = require('../zego-token.cjs')
+import crypto from 'crypto'
+import path from 'path'
+import { CONFIG } from './config.js'
+import { AgentStore, mergeAgentConfig, toPublicProfile } from './agent-store.js'
+import { SessionRegistry } from './session-registry.js'
+import { CallbackPipeline } from './callbacks.js'
+import { SessionEventStream } from './event-stream.js'
+import { TranscriptRecorder, createTranscriptStore } from './transcripts.js'
+import { ZegoClient, ZegoApiError, toHttpError } from './zego-client.js'
+import { UsageMeter, aggregateUsage, createUsageStore, estimateCost, toCsv, type UsageDimension } from './usage.js'
+import { metrics, PROMETHEUS_CONTENT_TYPE } from './metrics.js'
+import { configureLogger, logger, withLogContext } from './logger.js'
+import { generateToken04, type TokenPayload } from './token04.js'
+import { ReadinessProbe, probeHttp } from './health.js'
+import { QuotaExceededError, QuotaManager, createCounterStore, type QuotaLimits, type QuotaReservation } from './quotas.js'
+import { applySettingsPatch, buildInstanceUpdate } from './session-settings.js'
+import { parseHistory, truncateHistory } from './history.js'
+import { MemoryNotFoundError, UserMemoryManager, createSummarizer, createUserMemoryStore } from './memories.js'
+import { ToolRegistry, type ToolInvocation } from './tools.js'
+import { SessionLog } from './session-log.js'
+import { BUILTIN_TOOLS } from './builtin-tools.js'
+import {
+  LlmProxy,
+  LlmUpstreamError,
+  appendSystemText,
+  createUpstream,
+  messageText,
+  parseChatRequest,
+  toCompletion,
+  type LlmProxyContext,
+  type UpstreamTarget
+} from './llm-proxy.js'
+import { FailoverUpstream, LlmProviderRegistry, detectLanguage, validateRouting } from './llm-providers.js'
+import {
+  EmbeddingClient,
+  KbDocumentNotFoundError,
+  KnowledgeBase,
+  createKbStore,
+  extractCitations,
+  renderPassages,
+  retrievalQuery,
+  selectPassages,
+  type KbSearchResult
+} from './knowledge-base.js'
+import {
+  authMiddleware,
+  canActAs,
+  createApiKeyAuthenticator,
+  createHmacAuthenticator,
+  createJwtAuthenticator,
+  isServiceIdentity,
+  signSessionToken,
+  type Authenticator
+} from './auth.js'
+import type { AgentConfig, AgentProfile, AgentProfileInput, CreateAgentInstanceRequest, KbCitation, KbFormat, LLMConfig, SessionRecord, SpeakMode, TokenResponse, Transcript, TTSConfig, TTSRequest, UpdateSessionRequest } from './types.js'
 
-dotenv.config()
+configureLogger({ level: CONFIG.LOG_LEVEL, logUserText: CONFIG.LOG_USER_TEXT })
 
 const app = express()
-app.use(express.json())
-app.use(cors())
-
-const CONFIG = {
-  ZEGO_APP_ID: process.env.ZEGO_APP_ID!,
-  ZEGO_SERVER_SECRET: process.env.ZEGO_SERVER_SECRET!,
-  ZEGO_API_BASE_URL: 'https://aigc-aiagent-api.zegotech.cn/',
-  DASHSCOPE_API_KEY: process.env.DASHSCOPE_API_KEY || '',
-  PORT: parseInt(process.env.PORT || '8080', 10)
-}
 
-let REGISTERED_AGENT_ID: string | null = null
+// Honour an upstream X-Request-Id when it looks sane so logs line up across services
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
 
-function generateZegoSignature(action: string) {
-  const timestamp = Math.floor(Date.now() / 1000)
-  const nonce = crypto.randomBytes(8).toString('hex')
-  
-  const appId = CONFIG.ZEGO_APP_ID
-  const serverSecret = CONFIG.ZEGO_SERVER_SECRET
-  
-  const signString = appId + nonce + serverSecret + timestamp
-  const signature = crypto.createHash('md5').update(signString).digest('hex')
+app.use((req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id')
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID()
+  const startedAt = Date.now()
+  res.set('X-Request-Id', requestId)
   
+  withLogContext({ requestId }, () => {
+    res.once('close', () => {
+      logger.info('Request completed', {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt
+      })
+    })
+    next()
+  })
+})
+
+// Knowledge-base uploads are parsed on their route, with a larger limit
+const jsonBody = express.json()
+app.use((req: Request, res: Response, next: NextFunction): void => {
+  if (req.method === 'POST' && req.path === '/api/kb') {
+    next()
+    return
+  }
+  jsonBody(req, res, next)
+})
+app.use(cors({ exposedHeaders: ['X-Request-Id', 'Retry-After'] }))
+
+const httpRequests = metrics.counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by route template and status',
+  labelNames: ['method', 'route', 'status']
+})
+const httpRequestDuration = metrics.histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route template',
+  labelNames: ['method', 'route']
+})
+
+app.use((req: Request, res: Response, next: NextFunction): void => {
+  const stopTimer = httpRequestDuration.startTimer({ method: req.method })
+  // 'close' also fires for aborted requests and SSE streams, which never 'finish' normally
+  res.once('close', () => {
+    // Label by the matched template (/api/sessions/:instanceId), never the raw path, to bound cardinality
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched'
+    stopTimer({ route })
+    httpRequests.inc({ method: req.method, route, status: res.statusCode })
+  })
+  next()
+})
+
+function createAuthenticators(): Authenticator[] {
+  // Required settings for each method are checked when the config is loaded
+  return CONFIG.PROXY_AUTH.map(method => {
+    switch (method) {
+      case 'api_key':
+        return createApiKeyAuthenticator(CONFIG.PROXY_API_KEYS)
+      case 'hmac':
+        return createHmacAuthenticator(CONFIG.PROXY_AUTH_SECRET)
+      case 'jwt':
+        return createJwtAuthenticator({
+          jwksPath: CONFIG.PROXY_JWKS_PATH,
+          issuer: CONFIG.PROXY_JWT_ISSUER,
+          audience: CONFIG.PROXY_JWT_AUDIENCE,
+          userClaim: CONFIG.PROXY_JWT_USER_CLAIM
+        })
+      default:
+        throw new Error(`Unknown PROXY_AUTH method: ${method}`)
+    }
+  })
+}
+
+const authenticators = createAuthenticators()
+if (authenticators.length === 0) {
+  logger.warn('PROXY_AUTH is not configured: the API is open to anyone who can reach it')
+}
+
+const requireAuth = authMiddleware(authenticators)
+const LLM_PROXY_ROUTE = '/llm/chat/completions'
+app.use('/api', (req: Request, res: Response, next: NextFunction): void => {
+  // ZEGO callbacks are authenticated by their own signature, LLM proxy calls by the agent's LLM key
+  if (req.path === '/callbacks' || req.path === LLM_PROXY_ROUTE) {
+    next()
+    return
+  }
+  requireAuth(req, res, next)
+})
+
+const DEFAULT_AGENT_ID = 'ai_assistant'
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+const HISTORY_WINDOW_SIZE = 10  // Keep shorter history for better performance
+// SendAgentInstanceTTS rejects longer text
+const MAX_SPEAK_LENGTH = 300
+const SPEAK_INTERRUPT_MODES: Record<SpeakMode, number> = { interrupt: 0, queue: 1 }
+
+const zego = new ZegoClient({
+  appId: CONFIG.ZEGO_APP_ID,
+  serverSecret: CONFIG.ZEGO_SERVER_SECRET,
+  baseUrl: CONFIG.ZEGO_API_BASE_URL,
+  timeoutMs: CONFIG.ZEGO_TIMEOUT_MS,
+  retry: { maxAttempts: CONFIG.ZEGO_RETRY_ATTEMPTS, baseDelayMs: 200, maxDelayMs: 2000 },
+  retryableCodes: CONFIG.ZEGO_RETRYABLE_CODES,
+  breaker: {
+    failureThreshold: CONFIG.ZEGO_BREAKER_THRESHOLD,
+    resetTimeoutMs: CONFIG.ZEGO_BREAKER_RESET_MS
+  }
+})
+
+const agentStore = new AgentStore(path.join(CONFIG.DATA_DIR, 'agents.json'), CONFIG.ZEGO_APP_ID)
+const sessionRegistry = new SessionRegistry()
+const callbackPipeline = new CallbackPipeline({
+  secret: CONFIG.CALLBACK_SECRET,
+  verifySignature: CONFIG.CALLBACK_VERIFY_SIGNATURE
+})
+
+const sessionEvents = new SessionEventStream(CONFIG.EVENT_BUFFER_SIZE)
+const transcriptStore = createTranscriptStore(CONFIG.TRANSCRIPT_STORE, CONFIG.DATA_DIR)
+const transcriptRecorder = new TranscriptRecorder(transcriptStore)
+const usageMeter = new UsageMeter(createUsageStore(CONFIG.USAGE_STORE, CONFIG.DATA_DIR))
+const userMemory = new UserMemoryManager(
+  createUserMemoryStore(CONFIG.MEMORY_STORE, CONFIG.DATA_DIR),
+  createSummarizer(CONFIG.MEMORY_SUMMARIZER, CONFIG.MEMORY_LLM_TIMEOUT_MS),
+  { maxFacts: CONFIG.MEMORY_MAX_FACTS, maxSummaries: CONFIG.MEMORY_MAX_SUMMARIES }
+)
+const toolRegistry = new ToolRegistry(CONFIG.LLM_TOOL_TIMEOUT_MS)
+for (const name of CONFIG.LLM_TOOLS) {
+  const tool = BUILTIN_TOOLS.find(candidate => candidate.name === name)
+  if (!tool) throw new Error(`LLM_TOOLS: unknown tool "${name}" (built in: ${BUILTIN_TOOLS.map(candidate => candidate.name).join(', ')})`)
+  toolRegistry.register(tool)
+}
+const toolCallLog = new SessionLog<ToolInvocation>()
+const citationLog = new SessionLog<KbCitation>()
+const knowledgeBase = new KnowledgeBase(
+  createKbStore(CONFIG.KB_STORE, CONFIG.DATA_DIR),
+  CONFIG.KB_EMBEDDINGS_URL
+    ? new EmbeddingClient({
+      url: CONFIG.KB_EMBEDDINGS_URL,
+      model: CONFIG.KB_EMBEDDINGS_MODEL,
+      apiKey: CONFIG.KB_EMBEDDINGS_API_KEY,
+      timeoutMs: CONFIG.KB_EMBEDDINGS_TIMEOUT_MS
+    })
+    : null,
+  { minScore: CONFIG.KB_MIN_SCORE, minSimilarity: CONFIG.KB_MIN_SIMILARITY }
+)
+knowledgeBase.load().catch(error => logger.error('Failed to load knowledge base', { error }))
+const llmProviders = new LlmProviderRegistry(CONFIG.LLM_PROVIDERS)
+const llmProxy = new LlmProxy(new FailoverUpstream(createUpstream(CONFIG.LLM_PROXY_UPSTREAM, {
+  timeoutMs: CONFIG.LLM_PROXY_TIMEOUT_MS,
+  scriptPath: CONFIG.LLM_PROXY_SCRIPT || undefined
+}), { firstChunkTimeoutMs: CONFIG.LLM_FIRST_CHUNK_TIMEOUT_MS }), { tools: toolRegistry, maxToolRounds: CONFIG.LLM_MAX_TOOL_ROUNDS })
+
+// Behind a load balancer req.ip is the proxy's address unless Express is told to trust X-Forwarded-For
+if (CONFIG.TRUST_PROXY) {
+  const hops = Number(CONFIG.TRUST_PROXY)
+  app.set('trust proxy', CONFIG.TRUST_PROXY === 'true' ? true : Number.isInteger(hops) ? hops : CONFIG.TRUST_PROXY)
+}
+
+const userQuotaLimits: QuotaLimits = {
+  concurrentSessions: CONFIG.QUOTA_USER_CONCURRENT_SESSIONS,
+  sessionStartsPerHour: CONFIG.QUOTA_USER_SESSION_STARTS_PER_HOUR,
+  messagesPerMinute: CONFIG.QUOTA_USER_MESSAGES_PER_MINUTE,
+  agentMinutesPerDay: CONFIG.QUOTA_USER_AGENT_MINUTES_PER_DAY
+}
+const ipQuotaLimits: QuotaLimits = {
+  concurrentSessions: CONFIG.QUOTA_IP_CONCURRENT_SESSIONS,
+  sessionStartsPerHour: CONFIG.QUOTA_IP_SESSION_STARTS_PER_HOUR,
+  messagesPerMinute: CONFIG.QUOTA_IP_MESSAGES_PER_MINUTE,
+  agentMinutesPerDay: CONFIG.QUOTA_IP_AGENT_MINUTES_PER_DAY
+}
+const quotas = new QuotaManager(
+  createCounterStore(CONFIG.QUOTA_STORE),
+  { user: userQuotaLimits, ip: ipQuotaLimits },
+  () => sessionRegistry.list()
+)
+
+callbackPipeline.onAny(event => {
+  sessionRegistry.touch(event.AgentInstanceId)
+  transcriptRecorder.handleEvent(event)
+  usageMeter.handleEvent(event)
+  if (sessionRegistry.get(event.AgentInstanceId)) {
+    sessionEvents.publish(event)
+  }
+})
+
+function quotaErrorBody(error: QuotaExceededError) {
   return {
-    Action: action,
-    AppId: appId,
-    SignatureNonce: nonce,
-    SignatureVersion: '2.0',
-    Timestamp: timestamp,
-    Signature: signature
+    error: error.message,
+    quota: error.quota,
+    scope: error.scope,
+    limit: error.limit,
+    retryAfter: Math.max(Math.ceil(error.retryAfterMs / 1000), 1)
   }
 }
 
-async function makeZegoRequest(action: string, body: object = {}): Promise<any> {
-  const queryParams = generateZegoSignature(action)
-  const queryString = Object.entries(queryParams)
-    .map(([k, v]) => `${k}=${encodeURIComponent(String(v))}`)
-    .join('&')
+function sendError(res: Response, error: any, context: string, fallback = 'Internal error'): void {
+  if (error instanceof QuotaExceededError) {
+    const body = quotaErrorBody(error)
+    logger.warn(`${context} rejected by quota`, { quota: error.quota, scope: error.scope })
+    res.set('Retry-After', String(body.retryAfter)).status(429).json(body)
+    return
+  }
   
-  const url = `${CONFIG.ZEGO_API_BASE_URL}?${queryString}`
+  logger.error(`${context} failed`, { error })
+  const { status, body, headers } = toHttpError(error, fallback)
+  if (headers) res.set(headers)
+  res.status(status).json(body)
+}
+
+function requireServiceIdentity(req: Request, res: Response): boolean {
+  if (isServiceIdentity(req)) return true
+  res.status(403).json({ error: 'This operation requires a service credential' })
+  return false
+}
+
+// Looks up a session and checks the caller owns it; responds and returns null otherwise.
+function authorizeSession(req: Request, res: Response, instanceId: string) {
+  const session = sessionRegistry.get(instanceId)
   
-  try {
-    const response = await axios.post(url, body, {
-      headers: { 'Content-Type': 'application/json' },
-      timeout: 30000
-    })
-    return response.data
-  } catch (error: any) {
-    console.error('ZEGO API Error:', error.response?.data || error.message)
-    throw error
+  if (session && !canActAs(req, session.userId)) {
+    res.status(403).json({ error: 'Session belongs to another user' })
+    return null
   }
+  return session
 }
 
-async function registerAgent(): Promise<string> {
-  if (REGISTERED_AGENT_ID) return REGISTERED_AGENT_ID
-  
-  const agentId = `agent_${Date.now()}`
-  const agentConfig = {
+// Summarizes a finished session into long-term memory in the background; stopping never waits on the LLM.
+function rememberSession(transcript: Transcript | null): void {
+  if (!transcript) return
+  userMemory.remember(transcript, agentStore.get(transcript.agentId)?.LLM).catch(error => {
+    logger.error('Failed to update long-term memory', { instanceId: transcript.instanceId, error })
+  })
+}
+
+// Local bookkeeping once a session's agent instance is gone, whether the client stopped it or the
+// reaper did. `reason`, and any `detail` about it, is what SSE subscribers are told.
+async function endSession(instanceId: string, reason: string = 'stopped', detail?: Record<string, unknown>): Promise<void> {
+  const session = sessionRegistry.remove(instanceId)
+  if (session) await quotas.recordSessionEnd(session)
+  callbackPipeline.forget(instanceId)
+  sessionEvents.close(instanceId, reason, detail)
+  toolCallLog.clear(instanceId)
+  citationLog.clear(instanceId)
+  rememberSession(await transcriptRecorder.end(instanceId))
+  await usageMeter.end(instanceId)
+}
+
+function defaultAgentConfig(agentId: string): AgentConfig {
+  const provider = llmProviders.get(CONFIG.LLM_DEFAULT_PROVIDER)!
+  return {
     AgentId: agentId,
     Name: 'AI Assistant',
     LLM: {
-      Url: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions',
-      ApiKey: CONFIG.DASHSCOPE_API_KEY || 'zego_test',
-      Model: 'qwen-plus',
+      Url: provider.url,
+      ApiKey: provider.apiKey ?? '',
+      Model: provider.model ?? 'qwen-plus',
       SystemPrompt: 'You are a helpful AI assistant. Be concise and friendly. Respond in the same language as the user. Keep responses under 100 words for better voice conversation flow.',
       Temperature: 0.7,
       TopP: 0.9,
@@ -85,7 +331,7 @@ async function registerAgent(): Promise<string> {
       Vendor: 'CosyVoice',
       Params: {
         app: { 
-          api_key:'zego_test'
+          api_key: CONFIG.DASHSCOPE_API_KEY
         },
         payload: {
           model: 'cosyvoice-v2',
@@ -114,33 +360,258 @@ async function registerAgent(): Promise<string> {
       PauseInterval: 2000  // Concatenate speech within 2 seconds
     }
   }
-  
-  const result = await makeZegoRequest('RegisterAgent', agentConfig)
-  if (result.Code !== 0) {
-    throw new Error(`RegisterAgent failed: ${result.Code} ${result.Message}`)
+}
+
+function toAgentConfig(profile: AgentProfile): AgentConfig {
+  const { AgentId, Name, LLM, TTS, ASR, Routing } = profile
+  return { AgentId, Name, LLM, TTS, ASR, Routing }
+}
+
+// With LLM_PROXY_PUBLIC_URL set ZEGO is sent to our LLM proxy; stored profiles keep the real LLM.
+function zegoLlmConfig<T extends Partial<LLMConfig>>(agentId: string, llm: T): T {
+  if (!CONFIG.LLM_PROXY_PUBLIC_URL) return llm
+  const base = CONFIG.LLM_PROXY_PUBLIC_URL.replace(/\/+$/, '')
+  return {
+    ...llm,
+    Url: `${base}/api${LLM_PROXY_ROUTE}?agent_id=${encodeURIComponent(agentId)}`,
+    ApiKey: CONFIG.LLM_PROXY_API_KEY
+  }
+}
+
+// Knowledge-base citations like [1] are shown in the chat but must never be spoken
+function zegoTtsConfig<T extends Partial<TTSConfig>>(tts: T): T {
+  const filters = tts.FilterText ?? []
+  if (filters.some(filter => filter.BeginCharacters === '[' && filter.EndCharacters === ']')) return tts
+  return { ...tts, FilterText: [...filters, { BeginCharacters: '[', EndCharacters: ']' }] }
+}
+
+// What ZEGO is given for an agent: everything but our own routing, with the proxy and TTS rules applied
+function toZegoAgentConfig(config: AgentConfig): AgentConfig {
+  const { AgentId, Name, LLM, TTS, ASR } = config
+  return { AgentId, Name, LLM: zegoLlmConfig(AgentId, LLM), TTS: zegoTtsConfig(TTS), ASR }
+}
+
+async function registerAgent(config: AgentConfig): Promise<AgentProfile> {
+  await zego.registerAgent(toZegoAgentConfig(config))
+  logger.info('Agent registered', { agentId: config.AgentId })
+  return agentStore.save(config, true)
+}
+
+async function ensureAgentRegistered(agentId: string): Promise<AgentProfile | null> {
+  let profile = agentStore.get(agentId)
+  if (!profile && agentId === DEFAULT_AGENT_ID) {
+    profile = agentStore.save(defaultAgentConfig(DEFAULT_AGENT_ID), false)
   }
+  if (!profile) return null
   
-  REGISTERED_AGENT_ID = agentId
-  console.log('Agent registered:', agentId)
-  return agentId
+  return profile.Registered ? profile : registerAgent(toAgentConfig(profile))
+}
+
+// ZEGO no longer knows an agent we saved as registered, e.g. after it was unregistered on their side
+function isAgentNotFound(error: unknown): boolean {
+  return error instanceof ZegoApiError && CONFIG.ZEGO_AGENT_NOT_FOUND_CODES.includes(error.Code)
 }
 
+async function reregisterAgent(profile: AgentProfile): Promise<AgentProfile> {
+  logger.warn('Agent missing on ZEGO; registering it again', { agentId: profile.AgentId })
+  const config = toAgentConfig(profile)
+  agentStore.save(config, false)
+  return registerAgent(config)
+}
+
+app.get('/api/auth/me', (req: Request, res: Response): void => {
+  res.json({
+    method: req.auth?.method,
+    subject: req.auth?.subject,
+    userId: req.auth?.userId ?? null
+  })
+})
+
+// Lets a trusted backend holding a service credential mint a per-user session token for a browser.
+app.post('/api/auth/session', (req: Request, res: Response): void => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  const { user_id } = req.body || {}
+  
+  if (!user_id || typeof user_id !== 'string') {
+    res.status(400).json({ error: 'user_id required' })
+    return
+  }
+  
+  if (!CONFIG.PROXY_AUTH_SECRET) {
+    res.status(501).json({ error: 'Session tokens are not configured' })
+    return
+  }
+  
+  const { token, expiresAt } = signSessionToken(CONFIG.PROXY_AUTH_SECRET, user_id, CONFIG.PROXY_SESSION_TTL)
+  res.json({ token, userId: user_id, expiresAt })
+})
+
+app.get('/api/agents', (_req: Request, res: Response): void => {
+  res.json({ agents: agentStore.list().map(toPublicProfile) })
+})
+
+app.get('/api/agents/:agentId', (req: Request, res: Response): void => {
+  const profile = agentStore.get(req.params.agentId as string)
+  
+  if (!profile) {
+    res.status(404).json({ error: 'Agent not found' })
+    return
+  }
+  
+  res.json({ agent: toPublicProfile(profile) })
+})
+
+app.post('/api/agents', async (req: Request, res: Response): Promise<void> => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  try {
+    const input: AgentProfileInput = req.body || {}
+    const agentId = input.AgentId || `agent_${Date.now()}`
+    
+    if (!input.Name) {
+      res.status(400).json({ error: 'Name required' })
+      return
+    }
+    
+    if (!AGENT_ID_PATTERN.test(agentId)) {
+      res.status(400).json({ error: 'AgentId must be 1-64 letters, digits, _ or -' })
+      return
+    }
+    
+    if (agentStore.has(agentId)) {
+      res.status(409).json({ error: 'Agent already exists' })
+      return
+    }
+    
+    const routingProblem = validateRouting(input.Routing, llmProviders)
+    if (routingProblem) {
+      res.status(400).json({ error: routingProblem })
+      return
+    }
+    
+    const config = mergeAgentConfig(defaultAgentConfig(agentId), input)
+    const profile = await registerAgent(config)
+    
+    res.status(201).json({ success: true, agent: toPublicProfile(profile) })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Create agent', 'Failed to create agent')
+  }
+})
+
+app.put('/api/agents/:agentId', async (req: Request, res: Response): Promise<void> => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  try {
+    const existing = agentStore.get(req.params.agentId as string)
+    
+    if (!existing) {
+      res.status(404).json({ error: 'Agent not found' })
+      return
+    }
+    
+    const routingProblem = validateRouting(req.body?.Routing, llmProviders)
+    if (routingProblem) {
+      res.status(400).json({ error: routingProblem })
+      return
+    }
+    
+    const config = mergeAgentConfig(toAgentConfig(existing), req.body || {})
+    
+    if (!existing.Registered) {
+      const profile = await registerAgent(config)
+      res.json({ success: true, agent: toPublicProfile(profile) })
+      return
+    }
+    
+    try {
+      await zego.updateAgent(toZegoAgentConfig(config))
+    } catch (error) {
+      if (!isAgentNotFound(error)) throw error
+      const profile = await reregisterAgent({ ...existing, ...config })
+      res.json({ success: true, agent: toPublicProfile(profile) })
+      return
+    }
+    
+    const profile = agentStore.save(config, true)
+    res.json({ success: true, agent: toPublicProfile(profile) })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Update agent', 'Failed to update agent')
+  }
+})
+
+app.delete('/api/agents/:agentId', async (req: Request, res: Response): Promise<void> => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  try {
+    const profile = agentStore.get(req.params.agentId as string)
+    
+    if (!profile) {
+      res.status(404).json({ error: 'Agent not found' })
+      return
+    }
+    
+    if (profile.Registered) {
+      await zego.unregisterAgent({ AgentId: profile.AgentId })
+    }
+    
+    agentStore.delete(profile.AgentId)
+    res.json({ success: true })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Delete agent', 'Failed to delete agent')
+  }
+})
+
 app.post('/api/start', async (req: Request, res: Response): Promise<void> => {
+  let reservation: QuotaReservation | undefined
   try {
-    const { room_id, user_id, user_stream_id } = req.body
+    const { room_id, user_stream_id, agent_id } = req.body
+    const user_id = req.body.user_id || req.auth?.userId
     
     if (!room_id || !user_id) {
       res.status(400).json({ error: 'room_id and user_id required' })
       return
     }
     
-    const agentId = await registerAgent()
+    if (!canActAs(req, user_id)) {
+      res.status(403).json({ error: 'user_id does not match the authenticated user' })
+      return
+    }
+    
+    const history = parseHistory(req.body.messages)
+    if ('error' in history) {
+      res.status(400).json({ error: history.error })
+      return
+    }
+    // Resumed conversations: the newest turns that fit the budget, all visible in the first window
+    const historyMessages = truncateHistory(history.messages, CONFIG.HISTORY_TOKEN_BUDGET, HISTORY_WINDOW_SIZE)
+    
+    reservation = await quotas.checkSessionStart({ userId: user_id, ip: req.ip })
+    
+    const profile = await ensureAgentRegistered(agent_id || DEFAULT_AGENT_ID)
+    
+    if (!profile) {
+      res.status(404).json({ error: 'Agent not found' })
+      return
+    }
+    
+    const agentId = profile.AgentId
+    
+    const memoryBlock = CONFIG.MEMORY_TOKEN_BUDGET > 0 ? await userMemory.promptBlock(user_id, CONFIG.MEMORY_TOKEN_BUDGET) : ''
+    const systemPrompt = memoryBlock ? `${profile.LLM.SystemPrompt}\n\n${memoryBlock}` : undefined
+    // Also sent with the proxy enabled, so agents registered before it was turned on use it too
+    const instanceLlm = (systemPrompt || CONFIG.LLM_PROXY_PUBLIC_URL)
+      ? zegoLlmConfig(agentId, { ...profile.LLM, SystemPrompt: systemPrompt ?? profile.LLM.SystemPrompt })
+      : undefined
     
     const userStreamId = user_stream_id || `${user_id}_stream`
     const agentUserId = `agent_${room_id}`
     const agentStreamId = `agent_stream_${room_id}`
     
-    const instanceConfig = {
+    const instanceConfig: CreateAgentInstanceRequest = {
       AgentId: agentId,
       UserId: user_id,
       RTC: {
@@ -149,10 +620,11 @@ app.post('/api/start', async (req: Request, res: Response): Promise<void> => {
         AgentStreamId: agentStreamId,
         UserStreamId: userStreamId
       },
+      ...(instanceLlm && { LLM: instanceLlm }),
       MessageHistory: {
         SyncMode: 1,
-        Messages: [],
-        WindowSize: 10  // Keep shorter history for better performance
+        Messages: historyMessages,
+        WindowSize: HISTORY_WINDOW_SIZE
       },
       CallbackConfig: {
         ASRResult: 1,
@@ -167,24 +639,43 @@ app.post('/api/start', async (req: Request, res: Response): Promise<void> => {
       }
     }
     
-    const result = await makeZegoRequest('CreateAgentInstance', instanceConfig)
+    const result = await zego.createAgentInstance(instanceConfig).catch(async error => {
+      if (!isAgentNotFound(error)) throw error
+      await reregisterAgent(profile)
+      return zego.createAgentInstance(instanceConfig)
+    })
     
-    if (result.Code !== 0) {
-      res.status(400).json({ error: result.Message || 'Failed to create instance' })
-      return
-    }
+    const agentInstanceId = result.Data.AgentInstanceId
+    const session = sessionRegistry.add({
+      instanceId: agentInstanceId,
+      agentId,
+      roomId: room_id,
+      userId: user_id,
+      userStreamId,
+      agentUserId,
+      agentStreamId,
+      clientIp: req.ip,
+      systemPrompt
+    })
+    transcriptRecorder.begin(session)
+    usageMeter.begin(session)
     
     res.json({
       success: true,
-      agentInstanceId: result.Data?.AgentInstanceId,
+      agentInstanceId: agentInstanceId,
+      agentId: agentId,
       agentUserId: agentUserId,
       agentStreamId: agentStreamId,
-      userStreamId: userStreamId
+      userStreamId: userStreamId,
+      historyMessages: historyMessages.length,
+      historyTruncated: historyMessages.length < history.messages.length
     })
     
   } catch (error: any) {
-    console.error('Start error:', error)
-    res.status(500).json({ error: error.message || 'Internal error' })
+    sendError(res, error, 'Start', 'Failed to create instance')
+  } finally {
+    // By now the session is registered and counts itself, or the start failed
+    reservation?.release()
   }
 })
 
@@ -197,20 +688,21 @@ app.post('/api/stop', async (req: Request, res: Response): Promise<void> => {
       return
     }
     
-    const result = await makeZegoRequest('DeleteAgentInstance', {
-      AgentInstanceId: agent_instance_id
-    })
-    
-    if (result.Code !== 0) {
-      res.status(400).json({ error: result.Message || 'Failed to delete instance' })
+    const session = authorizeSession(req, res, agent_instance_id)
+    if (!session && !isServiceIdentity(req)) {
+      if (!res.headersSent) res.status(404).json({ error: 'Session not found' })
       return
     }
     
+    await zego.deleteAgentInstance({
+      AgentInstanceId: agent_instance_id
+    })
+    
+    await endSession(agent_instance_id)
     res.json({ success: true })
     
   } catch (error: any) {
-    console.error('Stop error:', error)
-    res.status(500).json({ error: error.message || 'Internal error' })
+    sendError(res, error, 'Stop', 'Failed to delete instance')
   }
 })
 
@@ -223,81 +715,1016 @@ app.post('/api/send-message', async (req: Request, res: Response): Promise<void>
       return
     }
     
-    const result = await makeZegoRequest('SendAgentInstanceLLM', {
+    const session = authorizeSession(req, res, agent_instance_id)
+    if (!session && !isServiceIdentity(req)) {
+      if (!res.headersSent) res.status(404).json({ error: 'Session not found' })
+      return
+    }
+    
+    await quotas.checkMessage({ userId: session?.userId ?? req.auth?.userId ?? 'unknown', ip: req.ip })
+    
+    await zego.sendAgentInstanceLLM({
       AgentInstanceId: agent_instance_id,
       Text: message,
       AddQuestionToHistory: true,
       AddAnswerToHistory: true
     })
     
-    if (result.Code !== 0) {
-      res.status(400).json({ error: result.Message || 'Failed to send message' })
-      return
-    }
-    
+    sessionRegistry.touch(agent_instance_id)
+    transcriptRecorder.addUserText(agent_instance_id, message)
+    usageMeter.addTextMessage(agent_instance_id)
     res.json({ success: true })
     
   } catch (error: any) {
-    console.error('Send message error:', error)
-    res.status(500).json({ error: error.message || 'Internal error' })
+    sendError(res, error, 'Send message', 'Failed to send message')
   }
 })
 
 app.get('/api/token', (req: Request, res: Response): void => {
   try {
-    const userId = req.query.user_id as string
+    const userId = (req.query.user_id as string) || req.auth?.userId
     const roomId = req.query.room_id as string
     
-    if (!userId) {
-      res.status(400).json({ error: 'user_id required' })
+    if (!userId || !roomId) {
+      res.status(400).json({ error: 'user_id and room_id required' })
+      return
+    }
+    
+    if (!canActAs(req, userId)) {
+      res.status(403).json({ error: 'user_id does not match the authenticated user' })
       return
     }
     
-    const payload = {
-      room_id: roomId || '',
+    // A room that already hosts a session belongs to that session's user
+    const roomSessions = sessionRegistry.list().filter(session => session.roomId === roomId)
+    if (roomSessions.some(session => session.userId !== userId)) {
+      res.status(403).json({ error: 'Room belongs to another user' })
+      return
+    }
+    
+    // The user may only publish their own stream; renewals keep whatever stream id the session was started with
+    const streamIds = Array.from(new Set([
+      `${userId}_stream`,
+      ...roomSessions.map(session => session.userStreamId)
+    ]))
+    
+    const payload: TokenPayload = {
+      room_id: roomId,
       privilege: { 1: 1, 2: 1 },
-      stream_id_list: null
+      stream_id_list: streamIds
     }
     
     const token = generateToken04(
       parseInt(CONFIG.ZEGO_APP_ID, 10),
       userId,
       CONFIG.ZEGO_SERVER_SECRET,
-      3600,
-      JSON.stringify(payload)
+      CONFIG.RTC_TOKEN_TTL,
+      payload
     )
     
-    res.json({ token })
+    const response: TokenResponse = {
+      token,
+      roomId,
+      streamIds,
+      expiresAt: Math.floor(Date.now() / 1000) + CONFIG.RTC_TOKEN_TTL
+    }
+    res.json(response)
     
   } catch (error: any) {
-    console.error('Token error:', error)
+    logger.error('Token generation failed', { error })
     res.status(500).json({ error: 'Failed to generate token' })
   }
 })
 
-app.post('/api/callbacks', (req: Request, res: Response): void => {
-  console.log('Callback received:', req.body.Event)
-  res.status(200).json({ success: true })
+app.get('/api/sessions', (req: Request, res: Response): void => {
+  const userId = req.auth?.userId ?? (req.query.user_id as string)
+  const sessions = sessionRegistry.list()
+    .filter(session => !userId || session.userId === userId)
+  
+  res.json({ sessions })
 })
 
-app.get('/health', (_req: Request, res: Response): void => {
-  res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    registered: !!REGISTERED_AGENT_ID,
-    config: {
-      appId: !!CONFIG.ZEGO_APP_ID,
-      serverSecret: !!CONFIG.ZEGO_SERVER_SECRET,
-      dashscope: !!CONFIG.DASHSCOPE_API_KEY
+app.get('/api/sessions/:instanceId', (req: Request, res: Response): void => {
+  const session = authorizeSession(req, res, req.params.instanceId as string)
+  if (res.headersSent) return
+  
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' })
+    return
+  }
+  
+  res.json({ session })
+})
+
+// Applies voice, speed, volume, temperature or a system-prompt addendum to a running session
+app.patch('/api/sessions/:instanceId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const instanceId = req.params.instanceId as string
+    const session = authorizeSession(req, res, instanceId)
+    if (res.headersSent) return
+    
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' })
+      return
     }
-  })
+    
+    const profile = agentStore.get(session.agentId)
+    if (!profile) {
+      res.status(409).json({ error: 'Agent profile for this session no longer exists' })
+      return
+    }
+    
+    const result = applySettingsPatch(session.settings ?? {}, (req.body ?? {}) as UpdateSessionRequest)
+    if ('error' in result) {
+      res.status(400).json({ error: result.error })
+      return
+    }
+    
+    const update = buildInstanceUpdate(profile, result.settings, result.changed, session.systemPrompt)
+    if (update.LLM) update.LLM = zegoLlmConfig(profile.AgentId, update.LLM)
+    if (update.TTS) update.TTS = zegoTtsConfig(update.TTS)
+    await zego.updateAgentInstance({ AgentInstanceId: instanceId, ...update })
+    
+    sessionRegistry.setSettings(instanceId, result.settings)
+    sessionRegistry.touch(instanceId)
+    logger.info('Session settings updated', { instanceId, changed: result.changed })
+    res.json({ success: true, settings: result.settings })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Update session', 'Failed to update session settings')
+  }
 })
 
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction): void => {
-  console.error('Unhandled error:', err)
-  res.status(500).json({ error: 'Internal server error' })
+app.get('/api/sessions/:instanceId/events', (req: Request, res: Response): void => {
+  const instanceId = req.params.instanceId as string
+  const session = authorizeSession(req, res, instanceId)
+  if (res.headersSent) return
+  
+  if (!session && !(isServiceIdentity(req) && sessionEvents.has(instanceId))) {
+    res.status(404).json({ error: 'Session not found' })
+    return
+  }
+  
+  const rawLastEventId = req.get('Last-Event-ID') ?? (req.query.last_event_id as string | undefined)
+  const lastEventId = rawLastEventId !== undefined ? parseInt(rawLastEventId, 10) : undefined
+  
+  sessionEvents.subscribe(instanceId, res, Number.isNaN(lastEventId) ? undefined : lastEventId)
+})
+
+// Tools the agent ran for this session, oldest first; ?round= narrows it to one of ZEGO's conversation rounds.
+app.get('/api/sessions/:instanceId/tool-calls', (req: Request, res: Response): void => {
+  const instanceId = req.params.instanceId as string
+  const session = authorizeSession(req, res, instanceId)
+  if (res.headersSent) return
+  
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' })
+    return
+  }
+  
+  const round = req.query.round !== undefined ? Number(req.query.round) : undefined
+  if (round !== undefined && !Number.isInteger(round)) {
+    res.status(400).json({ error: 'round must be an integer' })
+    return
+  }
+  
+  res.json({ toolCalls: toolCallLog.list(instanceId, round) })
+})
+
+// Which LLM provider and model answered each of the agent's requests, with any failovers before it.
+// Saved with the transcript, so ended sessions can still be looked up.
+app.get('/api/sessions/:instanceId/llm-turns', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const instanceId = req.params.instanceId as string
+    const session = authorizeSession(req, res, instanceId)
+    if (res.headersSent) return
+    
+    const transcript = await transcriptRecorder.get(instanceId)
+    if (!transcript || (!session && !canActAs(req, transcript.userId))) {
+      res.status(404).json({ error: 'Session not found' })
+      return
+    }
+    
+    const round = req.query.round !== undefined ? Number(req.query.round) : undefined
+    if (round !== undefined && !Number.isInteger(round)) {
+      res.status(400).json({ error: 'round must be an integer' })
+      return
+    }
+    
+    const turns = transcript.llmTurns ?? []
+    res.json({ turns: round === undefined ? turns : turns.filter(turn => turn.round === round) })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Get LLM turns', 'Failed to load LLM turns')
+  }
 })
 
+// Knowledge-base passages the agent's answers cited, oldest first; ?round= as for tool-calls.
+app.get('/api/sessions/:instanceId/citations', (req: Request, res: Response): void => {
+  const instanceId = req.params.instanceId as string
+  const session = authorizeSession(req, res, instanceId)
+  if (res.headersSent) return
+  
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' })
+    return
+  }
+  
+  const round = req.query.round !== undefined ? Number(req.query.round) : undefined
+  if (round !== undefined && !Number.isInteger(round)) {
+    res.status(400).json({ error: 'round must be an integer' })
+    return
+  }
+  
+  res.json({ citations: citationLog.list(instanceId, round) })
+})
+
+// Speaks fixed text (announcements, prompts) through the agent's TTS without the LLM
+app.post('/api/sessions/:instanceId/speak', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const instanceId = req.params.instanceId as string
+    const { text, mode = 'interrupt', add_to_history = true } = (req.body ?? {}) as Partial<TTSRequest>
+    
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).json({ error: 'text required' })
+      return
+    }
+    if (text.length > MAX_SPEAK_LENGTH) {
+      res.status(400).json({ error: `text must be at most ${MAX_SPEAK_LENGTH} characters` })
+      return
+    }
+    if (!Object.hasOwn(SPEAK_INTERRUPT_MODES, mode)) {
+      res.status(400).json({ error: 'mode must be "interrupt" or "queue"' })
+      return
+    }
+    if (typeof add_to_history !== 'boolean') {
+      res.status(400).json({ error: 'add_to_history must be a boolean' })
+      return
+    }
+    
+    const session = authorizeSession(req, res, instanceId)
+    if (!session && !isServiceIdentity(req)) {
+      if (!res.headersSent) res.status(404).json({ error: 'Session not found' })
+      return
+    }
+    
+    await quotas.checkMessage({ userId: session?.userId ?? req.auth?.userId ?? 'unknown', ip: req.ip })
+    
+    await zego.sendAgentInstanceTTS({
+      AgentInstanceId: instanceId,
+      Text: text,
+      AddHistory: add_to_history,
+      InterruptMode: SPEAK_INTERRUPT_MODES[mode]
+    })
+    
+    sessionRegistry.touch(instanceId)
+    transcriptRecorder.addAgentSpeech(instanceId, text)
+    usageMeter.addSpokenText(instanceId, text)
+    res.json({ success: true })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Speak', 'Failed to speak text')
+  }
+})
+
+// Stops the agent's current answer. Not quota-limited: stopping must always work.
+app.post('/api/sessions/:instanceId/interrupt', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const instanceId = req.params.instanceId as string
+    
+    const session = authorizeSession(req, res, instanceId)
+    if (!session && !isServiceIdentity(req)) {
+      if (!res.headersSent) res.status(404).json({ error: 'Session not found' })
+      return
+    }
+    
+    await zego.interruptAgentInstance({ AgentInstanceId: instanceId })
+    
+    sessionRegistry.touch(instanceId)
+    res.json({ success: true })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Interrupt', 'Failed to interrupt agent')
+  }
+})
+
+// Memory routes act on the authenticated user, or on ?user_id / body.user_id for service identities.
+function memoryUserId(req: Request, res: Response): string | null {
+  const userId = req.auth?.userId ?? ((req.body?.user_id || req.query.user_id) as string | undefined)
+  if (!userId) {
+    res.status(400).json({ error: 'user_id required' })
+    return null
+  }
+  if (!canActAs(req, userId)) {
+    res.status(403).json({ error: 'user_id does not match the authenticated user' })
+    return null
+  }
+  return userId
+}
+
+const MAX_MEMORY_TEXT_LENGTH = 500
+
+function memoryText(req: Request, res: Response): string | null {
+  const text = typeof req.body?.text === 'string' ? req.body.text.trim() : ''
+  if (!text || text.length > MAX_MEMORY_TEXT_LENGTH) {
+    res.status(400).json({ error: `text must be 1-${MAX_MEMORY_TEXT_LENGTH} characters` })
+    return null
+  }
+  return text
+}
+
+app.get('/api/memories', async (req: Request, res: Response): Promise<void> => {
+  const userId = memoryUserId(req, res)
+  if (!userId) return
+  
+  try {
+    res.json({ memories: await userMemory.list(userId) })
+  } catch (error: any) {
+    sendError(res, error, 'List memories', 'Failed to load memories')
+  }
+})
+
+app.post('/api/memories', async (req: Request, res: Response): Promise<void> => {
+  const userId = memoryUserId(req, res)
+  const text = userId && memoryText(req, res)
+  if (!userId || !text) return
+  
+  try {
+    res.status(201).json({ memory: await userMemory.add(userId, text) })
+  } catch (error: any) {
+    sendError(res, error, 'Add memory', 'Failed to save memory')
+  }
+})
+
+app.put('/api/memories/:memoryId', async (req: Request, res: Response): Promise<void> => {
+  const userId = memoryUserId(req, res)
+  const text = userId && memoryText(req, res)
+  if (!userId || !text) return
+  
+  try {
+    res.json({ memory: await userMemory.edit(userId, req.params.memoryId as string, text) })
+  } catch (error: any) {
+    if (error instanceof MemoryNotFoundError) {
+      res.status(404).json({ error: 'Memory not found' })
+      return
+    }
+    sendError(res, error, 'Edit memory', 'Failed to update memory')
+  }
+})
+
+app.delete('/api/memories/:memoryId', async (req: Request, res: Response): Promise<void> => {
+  const userId = memoryUserId(req, res)
+  if (!userId) return
+  
+  try {
+    await userMemory.remove(userId, req.params.memoryId as string)
+    res.json({ success: true })
+  } catch (error: any) {
+    if (error instanceof MemoryNotFoundError) {
+      res.status(404).json({ error: 'Memory not found' })
+      return
+    }
+    sendError(res, error, 'Delete memory', 'Failed to delete memory')
+  }
+})
+
+// Forgets everything stored about the user
+app.delete('/api/memories', async (req: Request, res: Response): Promise<void> => {
+  const userId = memoryUserId(req, res)
+  if (!userId) return
+  
+  try {
+    res.json({ success: true, deleted: await userMemory.clear(userId) })
+  } catch (error: any) {
+    sendError(res, error, 'Clear memories', 'Failed to clear memories')
+  }
+})
+
+const KB_FORMATS: KbFormat[] = ['markdown', 'text', 'pdf-text']
+const MAX_KB_TITLE_LENGTH = 200
+
+// Explicit format, else the file extension, else the content type
+function kbFormat(format: unknown, filename: string | undefined, contentType: string | undefined): KbFormat | null {
+  if (format !== undefined) return KB_FORMATS.includes(format as KbFormat) ? format as KbFormat : null
+  if (filename && /\.(md|markdown)$/i.test(filename)) return 'markdown'
+  if (filename && /\.pdf(\.txt)?$/i.test(filename)) return 'pdf-text'
+  return contentType?.startsWith('text/markdown') ? 'markdown' : 'text'
+}
+
+const kbUploadBody = [
+  express.json({ limit: CONFIG.KB_MAX_UPLOAD_BYTES }),
+  express.text({ type: 'text/*', limit: CONFIG.KB_MAX_UPLOAD_BYTES })
+]
+
+// Documents may hold any agent's private material, so reading them takes a service credential too
+app.get('/api/kb', (req: Request, res: Response): void => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  res.json({ documents: knowledgeBase.list() })
+})
+
+// JSON {content, title?, filename?, format?, agent_id?}, or the document itself as a text/markdown
+// or text/plain body with the other fields in the query string. PDFs are uploaded as extracted text.
+app.post('/api/kb', ...kbUploadBody, async (req: Request, res: Response): Promise<void> => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  try {
+    const isText = typeof req.body === 'string'
+    const fields = (isText ? req.query : req.body ?? {}) as Record<string, unknown>
+    const content = isText ? req.body : fields.content
+    const filename = typeof fields.filename === 'string' ? fields.filename : undefined
+    const agentId = fields.agent_id
+    
+    if (typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'content required' })
+      return
+    }
+    
+    const format = kbFormat(fields.format, filename, req.get('Content-Type'))
+    if (!format) {
+      res.status(400).json({ error: `format must be one of: ${KB_FORMATS.join(', ')}` })
+      return
+    }
+    
+    if (agentId !== undefined && (typeof agentId !== 'string' || !AGENT_ID_PATTERN.test(agentId))) {
+      res.status(400).json({ error: 'agent_id must be 1-64 letters, digits, _ or -' })
+      return
+    }
+    
+    const headingTitle = format === 'markdown' ? content.match(/^#\s+(.+)$/m)?.[1] : undefined
+    const title = (typeof fields.title === 'string' && fields.title.trim()) || headingTitle?.trim() || filename || 'Untitled'
+    if (title.length > MAX_KB_TITLE_LENGTH) {
+      res.status(400).json({ error: `title must be at most ${MAX_KB_TITLE_LENGTH} characters` })
+      return
+    }
+    
+    const document = await knowledgeBase.add({ title, content, format, agentId })
+    logger.info('Knowledge-base document added', { documentId: document.id, format, chunks: document.chunks, embedded: document.embedded })
+    res.status(201).json({ success: true, document })
+    
+  } catch (error: any) {
+    sendError(res, error, 'Add knowledge-base document', 'Failed to add document')
+  }
+})
+
+// Shows what the agent would be given for a question: ?q=...&agent_id=...&limit=...
+app.get('/api/kb/search', async (req: Request, res: Response): Promise<void> => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+  if (!query) {
+    res.status(400).json({ error: 'q required' })
+    return
+  }
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : CONFIG.KB_TOP_K
+  if (!Number.isInteger(limit) || limit < 1 || limit > 20) {
+    res.status(400).json({ error: 'limit must be an integer between 1 and 20' })
+    return
+  }
+  
+  try {
+    const results = await knowledgeBase.search(query, { agentId: req.query.agent_id as string | undefined, limit })
+    res.json({
+      results: results.map(({ chunk, document, score }) => ({
+        documentId: document.id,
+        title: document.title,
+        heading: chunk.heading,
+        text: chunk.text,
+        score
+      }))
+    })
+  } catch (error: any) {
+    sendError(res, error, 'Knowledge-base search', 'Search failed')
+  }
+})
+
+app.get('/api/kb/:documentId', (req: Request, res: Response): void => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  try {
+    const { document, chunks } = knowledgeBase.get(req.params.documentId as string)
+    res.json({ document, chunks: chunks.map(({ index, heading, text }) => ({ index, heading, text })) })
+  } catch (error: any) {
+    if (error instanceof KbDocumentNotFoundError) {
+      res.status(404).json({ error: 'Document not found' })
+      return
+    }
+    sendError(res, error, 'Get knowledge-base document', 'Failed to load document')
+  }
+})
+
+app.delete('/api/kb/:documentId', async (req: Request, res: Response): Promise<void> => {
+  if (!requireServiceIdentity(req, res)) return
+  
+  try {
+    await knowledgeBase.remove(req.params.documentId as string)
+    res.json({ success: true })
+  } catch (error: any) {
+    if (error instanceof KbDocumentNotFoundError) {
+      res.status(404).json({ error: 'Document not found' })
+      return
+    }
+    sendError(res, error, 'Delete knowledge-base document', 'Failed to delete document')
+  }
+})
+
+function parseDateParam(value: unknown, endOfDay = false): number | undefined {
+  if (typeof value !== 'string' || !value) return undefined
+  if (/^\d+$/.test(value)) return parseInt(value, 10)
+  
+  const time = Date.parse(value)
+  if (Number.isNaN(time)) return undefined
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 86400000 - 1 : time
+}
+
+app.get('/api/transcripts', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transcripts = await transcriptStore.list({
+      userId: req.auth?.userId ?? (req.query.user_id as string | undefined),
+      roomId: req.query.room_id as string | undefined,
+      from: parseDateParam(req.query.from),
+      to: parseDateParam(req.query.to, true)
+    })
+    
+    res.json({
+      transcripts: transcripts.map(({ turns, llmTurns, ...summary }) => ({
+        ...summary,
+        turnCount: turns.length,
+        llmTurnCount: llmTurns?.length ?? 0
+      }))
+    })
+    
+  } catch (error: any) {
+    logger.error('List transcripts failed', { error })
+    res.status(500).json({ error: error.message || 'Internal error' })
+  }
+})
+
+app.get('/api/transcripts/:instanceId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transcript = await transcriptStore.get(req.params.instanceId as string)
+    
+    if (!transcript || !canActAs(req, transcript.userId)) {
+      res.status(404).json({ error: 'Transcript not found' })
+      return
+    }
+    
+    res.json({ transcript })
+    
+  } catch (error: any) {
+    logger.error('Get transcript failed', { error })
+    res.status(500).json({ error: error.message || 'Internal error' })
+  }
+})
+
+const USAGE_DIMENSIONS: UsageDimension[] = ['user', 'agent', 'day']
+
+// ?group_by=user,agent,day (any subset, default all three) or group_by=session for one row per
+// session; ?format=csv downloads the same rows as CSV.
+app.get('/api/usage', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const groupBy = typeof req.query.group_by === 'string' ? req.query.group_by : USAGE_DIMENSIONS.join(',')
+    const dimensions = groupBy.split(',').map(value => value.trim()).filter(Boolean)
+    const perSession = groupBy === 'session'
+    
+    if (!perSession && !dimensions.every(value => USAGE_DIMENSIONS.includes(value as UsageDimension))) {
+      res.status(400).json({ error: `group_by must be "session" or a list of: ${USAGE_DIMENSIONS.join(', ')}` })
+      return
+    }
+    
+    const records = await usageMeter.list({
+      userId: req.auth?.userId ?? (req.query.user_id as string | undefined),
+      agentId: req.query.agent_id as string | undefined,
+      from: parseDateParam(req.query.from),
+      to: parseDateParam(req.query.to, true)
+    })
+    const prices = CONFIG.USAGE_PRICES
+    
+    const rows = perSession
+      ? records.map(record => ({ ...record, active: record.endedAt === undefined, estimatedCost: estimateCost(record, prices) }))
+      : aggregateUsage(records, dimensions as UsageDimension[], prices)
+    
+    if (req.query.format === 'csv') {
+      const columns = perSession
+        ? ['instanceId', 'userId', 'agentId', 'roomId', 'startedAt', 'endedAt', 'active', 'durationMs', 'llmTurns', 'ttsCharacters', 'asrSeconds', 'textMessages', 'estimatedCost']
+        : [
+          ...(dimensions.includes('day') ? ['day'] : []),
+          ...(dimensions.includes('user') ? ['userId'] : []),
+          ...(dimensions.includes('agent') ? ['agentId'] : []),
+          'sessions', 'durationMs', 'llmTurns', 'ttsCharacters', 'asrSeconds', 'textMessages', 'estimatedCost'
+        ]
+      res.type('text/csv').attachment('usage.csv').send(toCsv(rows, columns))
+      return
+    }
+    
+    res.json({ currency: prices.currency, groupBy: perSession ? ['session'] : dimensions, rows })
+    
+  } catch (error: any) {
+    logger.error('Usage report failed', { error })
+    res.status(500).json({ error: error.message || 'Internal error' })
+  }
+})
+
+const callbackEvents = metrics.counter({
+  name: 'zego_callback_events_total',
+  help: 'ZEGO agent callbacks received, by event type and ingest result',
+  labelNames: ['event', 'status']
+})
+
+app.post('/api/callbacks', (req: Request, res: Response): void => {
+  const result = callbackPipeline.ingest(req.body)
+  // Unsupported event names come from the request body, so they share one label value
+  const event = result.status === 'accepted' || result.status === 'duplicate' ? result.event.Event : 'other'
+  callbackEvents.inc({ event, status: result.status })
+  
+  switch (result.status) {
+    case 'invalid_signature':
+      logger.warn('Callback rejected: invalid signature')
+      res.status(401).json({ error: 'Invalid signature' })
+      return
+    case 'invalid':
+      logger.warn('Callback rejected', { reason: result.error })
+      res.status(400).json({ error: result.error })
+      return
+    case 'unsupported':
+      logger.info('Callback ignored', { event: result.event })
+      break
+    case 'duplicate':
+      logger.debug('Duplicate callback', { event: result.event.Event, instanceId: result.event.AgentInstanceId, sequence: result.event.Sequence })
+      break
+    case 'accepted':
+      logger.debug('Callback received', { event: result.event.Event, instanceId: result.event.AgentInstanceId, sequence: result.event.Sequence })
+      break
+  }
+  
+  res.status(200).json({ success: true })
+})
+
+const llmProxyKey = createApiKeyAuthenticator(CONFIG.LLM_PROXY_API_KEY)
+const llmProxyRequests = metrics.counter({
+  name: 'llm_proxy_requests_total',
+  help: 'Chat completions handled by the LLM proxy, by upstream and outcome',
+  labelNames: ['upstream', 'status']
+})
+const llmProxyFirstChunk = metrics.histogram({
+  name: 'llm_proxy_first_chunk_seconds',
+  help: 'Time from an LLM proxy request to the first upstream chunk',
+  labelNames: ['upstream']
+})
+
+const llmProviderRequests = metrics.counter({
+  name: 'llm_provider_requests_total',
+  help: 'LLM proxy replies by the provider that served them and outcome',
+  labelNames: ['provider', 'status']
+})
+const llmProviderFirstChunk = metrics.histogram({
+  name: 'llm_provider_first_chunk_seconds',
+  help: 'Time from calling the serving provider to its first chunk',
+  labelNames: ['provider']
+})
+const llmProviderFailovers = metrics.counter({
+  name: 'llm_provider_failovers_total',
+  help: 'Providers given up on before their first chunk, by reason (error or slow)',
+  labelNames: ['provider', 'reason']
+})
+
+const llmToolCalls = metrics.counter({
+  name: 'llm_tool_calls_total',
+  help: 'Server-side tool calls made by the model, by tool and outcome',
+  labelNames: ['tool', 'status']
+})
+
+llmProxy.use({
+  name: 'observability',
+  onComplete(ctx) {
+    const upstream = llmProxy.upstream.name
+    const provider = ctx.target.provider ?? upstream
+    const status = ctx.error ? 'error' : ctx.finishReason ?? 'incomplete'
+    llmProxyRequests.inc({ upstream, status })
+    llmProviderRequests.inc({ provider, status })
+    for (const failure of ctx.failures) {
+      llmProviderFailovers.inc({ provider: failure.provider ?? upstream, reason: failure.reason })
+    }
+    for (const invocation of ctx.toolCalls) {
+      llmToolCalls.inc({ tool: invocation.name, status: invocation.error ? 'error' : 'ok' })
+    }
+    if (ctx.firstChunkAt) llmProxyFirstChunk.observe({ upstream }, (ctx.firstChunkAt - ctx.startedAt) / 1000)
+    if (ctx.firstChunkAt && ctx.targetStartedAt) {
+      llmProviderFirstChunk.observe({ provider }, (ctx.firstChunkAt - ctx.targetStartedAt) / 1000)
+    }
+    logger.info('LLM proxy completion', {
+      agentId: ctx.agentId,
+      instanceId: ctx.agentInfo.agent_instance_id,
+      provider,
+      model: ctx.target.model ?? ctx.request.model,
+      failovers: ctx.failures.length ? ctx.failures.map(failure => `${failure.provider}: ${failure.reason}`) : undefined,
+      messages: ctx.request.messages.length,
+      replyLength: ctx.content.length,
+      finishReason: ctx.finishReason,
+      toolCalls: ctx.toolCalls.length ? ctx.toolCalls.map(invocation => invocation.name) : undefined,
+      firstChunkMs: ctx.firstChunkAt ? ctx.firstChunkAt - ctx.startedAt : undefined,
+      durationMs: Date.now() - ctx.startedAt,
+      error: ctx.error
+    })
+  }
+})
+
+llmProxy.use({
+  name: 'knowledge-base',
+  async onRequest(ctx) {
+    if (CONFIG.KB_TOKEN_BUDGET === 0 || knowledgeBase.size === 0) return
+    const query = retrievalQuery(ctx.request.messages)
+    if (!query) return
+    
+    const results = await knowledgeBase.search(query, { agentId: ctx.agentId, limit: CONFIG.KB_TOP_K })
+    const passages = selectPassages(results, CONFIG.KB_TOKEN_BUDGET)
+    if (passages.length === 0) return
+    
+    ctx.state.kbPassages = passages
+    ctx.request = { ...ctx.request, messages: appendSystemText(ctx.request.messages, renderPassages(passages)) }
+  },
+  onComplete(ctx) {
+    const passages = ctx.state.kbPassages as KbSearchResult[] | undefined
+    const instanceId = ctx.agentInfo.agent_instance_id
+    if (!passages || !instanceId || ctx.error) return
+    
+    const at = Date.now()
+    const citations = extractCitations(ctx.content, passages, ctx.requestId)
+      .map(citation => ({ ...citation, round: ctx.agentInfo.round_id, at }))
+    if (citations.length > 0) citationLog.record(instanceId, citations)
+  }
+})
+
+llmProxy.use({
+  name: 'tool-call-log',
+  onComplete(ctx) {
+    const instanceId = ctx.agentInfo.agent_instance_id
+    if (instanceId && ctx.toolCalls.length > 0) toolCallLog.record(instanceId, ctx.toolCalls)
+  }
+})
+
+llmProxy.use({
+  name: 'llm-turn-log',
+  onComplete(ctx) {
+    const instanceId = ctx.agentInfo.agent_instance_id
+    if (!instanceId) return
+    transcriptRecorder.addLlmTurn(instanceId, {
+      requestId: ctx.requestId,
+      provider: ctx.target.provider,
+      model: ctx.target.model ?? ctx.request.model,
+      language: ctx.state.language as string | undefined,
+      round: ctx.agentInfo.round_id,
+      firstChunkMs: ctx.firstChunkAt && ctx.targetStartedAt ? ctx.firstChunkAt - ctx.targetStartedAt : undefined,
+      durationMs: Date.now() - ctx.startedAt,
+      failovers: ctx.failures,
+      ...(ctx.error !== undefined && { error: ctx.error instanceof Error ? ctx.error.message : String(ctx.error) }),
+      at: ctx.startedAt
+    })
+  }
+})
+
+// Providers to try for an agent, in order. The primary is the agent's Routing.Primary, else
+// LLM_PROXY_UPSTREAM_URL, else the LLM its profile was saved with.
+function llmProxyTargets(agentId: string | undefined, language: string | undefined): UpstreamTarget[] {
+  const config = agentId ? agentStore.get(agentId) : defaultAgentConfig(DEFAULT_AGENT_ID)
+  if (!config) return []
+  
+  const url = CONFIG.LLM_PROXY_UPSTREAM_URL ?? config.LLM.Url
+  const apiKey = CONFIG.LLM_PROXY_UPSTREAM_URL ? CONFIG.LLM_PROXY_UPSTREAM_API_KEY : config.LLM.ApiKey
+  return llmProviders.resolve({
+    primary: { url, apiKey, provider: llmProviders.nameFor(url) },
+    routing: config.Routing,
+    language,
+    fallbacks: CONFIG.LLM_FALLBACK_PROVIDERS
+  })
+}
+
+// Configured providers, for building agents' Routing; API keys are never returned.
+app.get('/api/llm/providers', (_req: Request, res: Response): void => {
+  res.json({
+    providers: llmProviders.list().map(({ apiKey, ...provider }) => ({ ...provider, apiKey: apiKey ? '***' : '' })),
+    defaultProvider: CONFIG.LLM_DEFAULT_PROVIDER,
+    fallbacks: CONFIG.LLM_FALLBACK_PROVIDERS,
+    firstChunkTimeoutMs: CONFIG.LLM_FIRST_CHUNK_TIMEOUT_MS
+  })
+})
+
+// Errors use the OpenAI shape, which is what ZEGO and other chat-completions clients parse.
+function sendLlmProxyError(res: Response, status: number, message: string, type = 'invalid_request_error'): void {
+  res.status(status).json({ error: { message, type } })
+}
+
+// OpenAI-compatible chat completions for ZEGO agents (see zegoLlmConfig), streamed as SSE when stream is true.
+app.post(`/api${LLM_PROXY_ROUTE}`, async (req: Request, res: Response): Promise<void> => {
+  const credential = req.get('Authorization')?.match(/^Bearer\s+(.+)$/)?.[1]?.trim()
+  if (!credential || !llmProxyKey.authenticate(credential)) {
+    res.set('WWW-Authenticate', 'Bearer')
+    sendLlmProxyError(res, 401, 'Invalid LLM proxy key', 'authentication_error')
+    return
+  }
+
+  const parsed = parseChatRequest(req.body)
+  if ('error' in parsed) {
+    sendLlmProxyError(res, 400, parsed.error)
+    return
+  }
+
+  const agentId = typeof req.query.agent_id === 'string' ? req.query.agent_id : undefined
+  const lastUserMessage = [...parsed.request.messages].reverse().find(message => message.role === 'user')
+  const language = detectLanguage(messageText(lastUserMessage))
+  const [target, ...fallbacks] = llmProxyTargets(agentId, language)
+  if (!target && CONFIG.LLM_PROXY_UPSTREAM === 'http') {
+    sendLlmProxyError(res, 404, `Agent ${agentId} not found`)
+    return
+  }
+
+  const requestId = res.get('X-Request-Id') ?? crypto.randomUUID()
+  const ctx: LlmProxyContext = {
+    requestId,
+    agentId,
+    agentInfo: parsed.agentInfo,
+    request: parsed.request,
+    target: target ?? { url: '', apiKey: '' },
+    fallbacks,
+    failures: [],
+    startedAt: Date.now(),
+    content: '',
+    finishReason: null,
+    toolCalls: [],
+    state: { language }
+  }
+  const streaming = parsed.request.stream === true
+
+  // Stop the upstream call when the caller goes away (e.g. ZEGO after an interruption)
+  const abort = new AbortController()
+  res.once('close', () => {
+    if (!res.writableFinished) abort.abort()
+  })
+
+  try {
+    let completionId = `chatcmpl-${requestId}`
+    for await (const chunk of llmProxy.run(ctx, abort.signal)) {
+      if (!streaming) {
+        completionId = chunk.id || completionId
+        continue
+      }
+      if (!res.headersSent) {
+        res.status(200).set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive'
+        }).flushHeaders()
+      }
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+    }
+
+    if (!streaming) {
+      res.json(toCompletion(ctx, completionId))
+      return
+    }
+    if (!res.headersSent) res.status(200).type('text/event-stream')
+    res.end('data: [DONE]\n\n')
+
+  } catch (error: any) {
+    if (abort.signal.aborted) return
+    logger.error('LLM proxy failed', { agentId, error })
+
+    const status = error instanceof LlmUpstreamError ? 502 : 500
+    const message = error instanceof LlmUpstreamError ? error.message : 'LLM proxy error'
+    if (!res.headersSent) {
+      sendLlmProxyError(res, status, message, 'upstream_error')
+      return
+    }
+    // Mid-stream failures can only be reported in-band
+    res.end(`data: ${JSON.stringify({ error: { message, type: 'upstream_error' } })}\n\n`)
+  }
+})
+
+metrics.gauge({
+  name: 'active_sessions',
+  help: 'Agent instances currently tracked by this server',
+  collect: gauge => gauge.set(undefined, sessionRegistry.size)
+})
+metrics.gauge({
+  name: 'registered_agents',
+  help: 'Agent profiles registered with ZEGO',
+  collect: gauge => gauge.set(undefined, agentStore.list().filter(profile => profile.Registered).length)
+})
+metrics.gauge({
+  name: 'zego_circuit_open',
+  help: '1 while the ZEGO circuit breaker is rejecting calls',
+  collect: gauge => gauge.set(undefined, zego.breaker.snapshot().state === 'open' ? 1 : 0)
+})
+
+app.get('/metrics', (_req: Request, res: Response): void => {
+  res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.render())
+})
+
+app.get('/health', (_req: Request, res: Response): void => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    registered: agentStore.list().some(profile => profile.Registered),
+    agents: agentStore.list().length,
+    sessions: sessionRegistry.size,
+    zego: zego.breaker.snapshot(),
+    config: {
+      appId: !!CONFIG.ZEGO_APP_ID,
+      serverSecret: !!CONFIG.ZEGO_SERVER_SECRET,
+      dashscope: !!CONFIG.DASHSCOPE_API_KEY
+    }
+  })
+})
+
+const readiness = new ReadinessProbe({
+  async zego() {
+    const result = await zego.queryAgents({ Limit: 1 })
+    return { agents: result.Data.Total, breaker: zego.breaker.snapshot().state }
+  },
+  async llm() {
+    const urls = new Set([
+      defaultAgentConfig(DEFAULT_AGENT_ID).LLM.Url,
+      ...agentStore.list().map(profile => profile.LLM.Url)
+    ])
+    const endpoints = await Promise.all(Array.from(urls).map(async url => ({
+      url,
+      ...(await probeHttp(url, CONFIG.HEALTH_PROBE_TIMEOUT_MS))
+    })))
+    return { endpoints }
+  },
+  async sessions() {
+    await transcriptStore.check()
+    await userMemory.check()
+    await knowledgeBase.check()
+    return {
+      active: sessionRegistry.size,
+      transcriptStore: CONFIG.TRANSCRIPT_STORE,
+      memoryStore: CONFIG.MEMORY_STORE,
+      knowledgeBase: { store: CONFIG.KB_STORE, documents: knowledgeBase.size }
+    }
+  }
+}, { timeoutMs: CONFIG.HEALTH_PROBE_TIMEOUT_MS, cacheMs: CONFIG.HEALTH_READY_CACHE_MS })
+
+// Readiness: can this instance serve traffic right now? Liveness stays on /health.
+app.get('/health/ready', async (_req: Request, res: Response): Promise<void> => {
+  const report = await readiness.run()
+  res.status(report.ready ? 200 : 503).json(report)
+})
+
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction): void => {
+  if ((err as Error & { status?: number }).status === 413) {
+    res.status(413).json({ error: 'Request body too large' })
+    return
+  }
+  logger.error('Unhandled error', { error: err })
+  res.status(500).json({ error: 'Internal server error' })
+})
+
+// Stops a session the server ended on its own (expired or over quota) and tears it down.
+async function expireSession(session: SessionRecord, reason: string, detail?: Record<string, unknown>): Promise<void> {
+  logger.info('Reaping session', { instanceId: session.instanceId, reason })
+  try {
+    await zego.deleteAgentInstance({ AgentInstanceId: session.instanceId })
+  } catch (error) {
+    if (!(error instanceof ZegoApiError)) throw error
+    logger.warn('DeleteAgentInstance rejected while reaping', { instanceId: session.instanceId, error })
+  }
+  await endSession(session.instanceId, reason, detail)
+}
+
+sessionRegistry.startReaper({
+  idleTimeoutMs: CONFIG.SESSION_IDLE_TIMEOUT_MS,
+  maxDurationMs: CONFIG.SESSION_MAX_DURATION_MS,
+  intervalMs: CONFIG.SESSION_REAP_INTERVAL_MS
+}, async (session, reason) => {
+  await expireSession(session, reason)
+  return true
+})
+
+// Agent minutes are also checked while sessions run, so one long session cannot run past the daily
+// limit. Subscribers get the quota error with the end event.
+let enforcingQuotas = false
+setInterval(async () => {
+  if (enforcingQuotas) return
+  enforcingQuotas = true
+  
+  try {
+    for (const session of sessionRegistry.list()) {
+      try {
+        await quotas.checkAgentMinutes(session)
+      } catch (error) {
+        if (!(error instanceof QuotaExceededError)) throw error
+        logger.warn('Session exceeded quota', { instanceId: session.instanceId, quota: error.quota, scope: error.scope })
+        await expireSession(session, 'quota', quotaErrorBody(error))
+      }
+    }
+  } catch (error) {
+    logger.error('Quota check failed', { error })
+  } finally {
+    enforcingQuotas = false
+  }
+}, CONFIG.SESSION_REAP_INTERVAL_MS).unref()
+
 app.listen(CONFIG.PORT, () => {
-  console.log(`Server running on port ${CONFIG.PORT}`)
+  logger.info('Server running', { port: CONFIG.PORT })
 })
\ No newline at end of file
@@ -0,0 +1,23 @@
+const MAX_ENTRIES_PER_SESSION = 100
+
+// Recent per-session records from the LLM proxy (tool calls, citations). Clients fetch them
+// once an answer has ended; they are dropped with the session.
+export class SessionLog<T extends { round?: number }> {
+  private sessions: Map<string, T[]> = new Map()
+
+  record(instanceId: string, entries: T[]): void {
+    const list = this.sessions.get(instanceId) ?? []
+    list.push(...entries)
+    if (list.length > MAX_ENTRIES_PER_SESSION) list.splice(0, list.length - MAX_ENTRIES_PER_SESSION)
+    this.sessions.set(instanceId, list)
+  }
+
+  list(instanceId: string, round?: number): T[] {
+    const list = this.sessions.get(instanceId) ?? []
+    return round === undefined ? [...list] : list.filter(entry => entry.round === round)
+  }
+
+  clear(instanceId: string): void {
+    this.sessions.delete(instanceId)
+  }
+}
@@ -0,0 +1,105 @@
+import { logger } from './logger.js'
+import type { SessionRecord, SessionSettings } from './types.js'
+
+export type SessionExpiryReason = 'idle' | 'max_duration'
+
+export interface ReaperOptions {
+  idleTimeoutMs: number
+  maxDurationMs: number
+  intervalMs: number
+}
+
+export class SessionRegistry {
+  private sessions: Map<string, SessionRecord> = new Map()
+  private reaperTimer: NodeJS.Timeout | null = null
+  private reaping = false
+
+  add(session: Omit<SessionRecord, 'startedAt' | 'lastActivityAt'>): SessionRecord {
+    const now = Date.now()
+    const record: SessionRecord = { ...session, startedAt: now, lastActivityAt: now }
+    this.sessions.set(record.instanceId, record)
+    return record
+  }
+
+  get(instanceId: string): SessionRecord | null {
+    return this.sessions.get(instanceId) || null
+  }
+
+  list(): SessionRecord[] {
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  touch(instanceId: string): void {
+    const session = this.sessions.get(instanceId)
+    if (session) {
+      session.lastActivityAt = Date.now()
+    }
+  }
+
+  setSettings(instanceId: string, settings: SessionSettings): void {
+    const session = this.sessions.get(instanceId)
+    if (session) {
+      session.settings = settings
+    }
+  }
+
+  remove(instanceId: string): SessionRecord | null {
+    const session = this.sessions.get(instanceId) || null
+    this.sessions.delete(instanceId)
+    return session
+  }
+
+  get size(): number {
+    return this.sessions.size
+  }
+
+  findExpired(options: Pick<ReaperOptions, 'idleTimeoutMs' | 'maxDurationMs'>, now = Date.now()) {
+    const expired: { session: SessionRecord; reason: SessionExpiryReason }[] = []
+
+    for (const session of this.sessions.values()) {
+      if (options.maxDurationMs > 0 && now - session.startedAt >= options.maxDurationMs) {
+        expired.push({ session, reason: 'max_duration' })
+      } else if (options.idleTimeoutMs > 0 && now - session.lastActivityAt >= options.idleTimeoutMs) {
+        expired.push({ session, reason: 'idle' })
+      }
+    }
+
+    return expired
+  }
+
+  startReaper(
+    options: ReaperOptions,
+    onExpire: (session: SessionRecord, reason: SessionExpiryReason) => Promise<boolean>
+  ): void {
+    this.stopReaper()
+
+    this.reaperTimer = setInterval(async () => {
+      if (this.reaping) return
+      this.reaping = true
+
+      try {
+        for (const { session, reason } of this.findExpired(options)) {
+          try {
+            if (await onExpire(session, reason)) {
+              this.sessions.delete(session.instanceId)
+            }
+          } catch (error) {
+            logger.error('Session reap failed', { instanceId: session.instanceId, reason, error })
+          }
+        }
+      } finally {
+        this.reaping = false
+      }
+    }, options.intervalMs)
+
+    this.reaperTimer.unref()
+  }
+
+  stopReaper(): void {
+    if (this.reaperTimer) {
+      clearInterval(this.reaperTimer)
+      this.reaperTimer = null
+    }
+  }
+}
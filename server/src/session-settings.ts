@@ -0,0 +1,112 @@
+import type { AgentConfig, SessionSettings, UpdateAgentInstanceRequest, UpdateSessionRequest } from './types.js'
+
+const VOICE_PATTERN = /^[\w.-]{1,64}$/
+const MAX_ADDENDUM_LENGTH = 2000
+
+type Range = [min: number, max: number]
+
+const RANGES: Record<'speed' | 'volume' | 'temperature', Range> = {
+  speed: [0.5, 2],
+  volume: [0, 1],
+  temperature: [0, 2]
+}
+
+const TTS_KEYS = ['voice', 'speed', 'volume'] as const
+const LLM_KEYS = ['temperature', 'systemPromptAddendum'] as const
+
+export type SettingsPatchResult =
+  | { settings: SessionSettings; changed: (keyof SessionSettings)[] }
+  | { error: string }
+
+// Validates a PATCH body and applies it to the session's current settings.
+export function applySettingsPatch(current: SessionSettings, body: UpdateSessionRequest): SettingsPatchResult {
+  const next: SessionSettings = { ...current }
+  const changed: (keyof SessionSettings)[] = []
+
+  const set = <K extends keyof SessionSettings>(key: K, value: SessionSettings[K] | null) => {
+    if (value === null) {
+      delete next[key]
+    } else {
+      next[key] = value
+    }
+    changed.push(key)
+  }
+
+  if (body.voice !== undefined) {
+    if (body.voice !== null && (typeof body.voice !== 'string' || !VOICE_PATTERN.test(body.voice))) {
+      return { error: 'voice must be 1-64 letters, digits, _, . or -' }
+    }
+    set('voice', body.voice)
+  }
+
+  for (const key of Object.keys(RANGES) as (keyof typeof RANGES)[]) {
+    const value = body[key]
+    if (value === undefined) continue
+
+    const [min, max] = RANGES[key]
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max)) {
+      return { error: `${key} must be a number between ${min} and ${max}` }
+    }
+    set(key, value)
+  }
+
+  if (body.system_prompt_addendum !== undefined) {
+    const addendum = body.system_prompt_addendum
+    if (addendum !== null && typeof addendum !== 'string') {
+      return { error: 'system_prompt_addendum must be a string' }
+    }
+    if (addendum && addendum.length > MAX_ADDENDUM_LENGTH) {
+      return { error: `system_prompt_addendum must be at most ${MAX_ADDENDUM_LENGTH} characters` }
+    }
+    set('systemPromptAddendum', addendum?.trim() || null)
+  }
+
+  if (changed.length === 0) {
+    return { error: `No settings given (expected any of: voice, ${Object.keys(RANGES).join(', ')}, system_prompt_addendum)` }
+  }
+  return { settings: next, changed }
+}
+
+// Rebuilds the LLM and/or TTS sections from the agent profile plus the session's settings.
+// `basePrompt` is the prompt the session started with, when it differs from the profile's.
+// Only sections with a changed setting are included, so an untouched section keeps running as is.
+// Vendors without a CosyVoice-style `payload` only take the voice; speed and volume are ignored.
+export function buildInstanceUpdate(
+  profile: AgentConfig,
+  settings: SessionSettings,
+  changed: (keyof SessionSettings)[],
+  basePrompt = profile.LLM.SystemPrompt
+): Pick<UpdateAgentInstanceRequest, 'LLM' | 'TTS'> {
+  const update: Pick<UpdateAgentInstanceRequest, 'LLM' | 'TTS'> = {}
+
+  if (changed.some(key => (LLM_KEYS as readonly string[]).includes(key))) {
+    update.LLM = {
+      ...profile.LLM,
+      Temperature: settings.temperature ?? profile.LLM.Temperature,
+      SystemPrompt: settings.systemPromptAddendum
+        ? `${basePrompt}\n\n${settings.systemPromptAddendum}`
+        : basePrompt
+    }
+  }
+
+  if (changed.some(key => (TTS_KEYS as readonly string[]).includes(key))) {
+    const params = { ...profile.TTS.Params }
+    if (params.payload) {
+      const base = params.payload.parameters
+      params.payload = {
+        ...params.payload,
+        parameters: {
+          ...base,
+          voice: settings.voice ?? base.voice,
+          speed: settings.speed ?? base.speed,
+          volume: settings.volume ?? base.volume
+        }
+      }
+    } else if (settings.voice ?? params.voice) {
+      params.voice = settings.voice ?? params.voice
+    }
+    update.TTS = { ...profile.TTS, Params: params }
+  }
+
+  return update
+}
@@ -0,0 +1,124 @@
+import dotenv from 'dotenv'
+import { TokenError, TokenPrivilege, decodeToken04, generateToken04, type TokenPayload } from './token04.js'
+
+dotenv.config({ quiet: true })
+
+// Debugging aid for "token invalid" login failures. Reads ZEGO_APP_ID / ZEGO_SERVER_SECRET from .env.
+//   npm run token -- decode <token>
+//   npm run token -- generate <userId> <roomId> [ttlSeconds]
+//   npm run token -- selftest
+
+// Known-answer vectors produced by ZEGO's reference token04 implementation with fixed randomness.
+const KNOWN_ANSWERS = [
+  {
+    appId: 1234567,
+    userId: 'u1',
+    secret: '0123456789abcdef0123456789abcdef',
+    ttl: 3600,
+    payload: { room_id: 'r1', privilege: { 1: 1, 2: 1 }, stream_id_list: ['u1_stream'] } as TokenPayload | string,
+    overrides: { now: 1700000000000, nonce: 42, iv: Buffer.from('000102030405060708090a0b', 'hex') },
+    token: '04AAAAAGVT/xAADAABAgMEBQYHCAkKCwDHVsfaDKlHu8iK5kCMQvvkMtEkIfJP2QbUSbiZjppQnaaRiVhxJ9ZyMqsRiXD4z7dTQY6/yzmHpfIYcwR+LCszXMh6FFhERnmRbF54LclBPw405+5SNAyciO/RI/2YbegJzuJ05+Dw93Jayg1P51LkzhCF01XPzplbjJbyUA8pEQtqfv0EcJiK++SH2GlH9+YwU637fyTNhSJrg1WQtCDLqFTqazeWjIDtHIZZgfGm0G6Tgs/CaYlHgsca1Hrlu2jzq11Nh37y5wE='
+  },
+  {
+    appId: 987654321,
+    userId: 'user_é',
+    secret: 'abcdefghijklmnopqrstuvwxyz012345',
+    ttl: 86400,
+    payload: '',
+    overrides: { now: 1600000000000, nonce: -1, iv: Buffer.alloc(12, 0xff) },
+    token: '04AAAAAF9fYYAADP///////////////wB3F2IQQIcq/urSqAZYdZTu+hy5rHijB6oHBivMT73VlZNdZoMmC240sttfmYubP/Gd6dcUQw8JCrZixUizcVvBKV8NdORQwWleVs4osPYOPKd4YeYECaIA343HrBZLrNXEjT6TpV0Gu+Gxlf2tuO1I3/ylmzuL4vUB'
+  }
+]
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    console.error(`${name} is not set (see server/.env.example)`)
+    process.exit(1)
+  }
+  return value
+}
+
+function describe(token: string, secret: string): void {
+  const decoded = decodeToken04(token, secret)
+  const privileges = decoded.payload
+    ? `login=${decoded.payload.privilege?.[TokenPrivilege.Login] ?? 0} publish=${decoded.payload.privilege?.[TokenPrivilege.Publish] ?? 0}`
+    : 'none (token is not room-scoped)'
+
+  console.log(`App ID:     ${decoded.appId}`)
+  console.log(`User ID:    ${decoded.userId}`)
+  console.log(`Created:    ${new Date(decoded.createdAt * 1000).toISOString()}`)
+  console.log(`Expires:    ${new Date(decoded.expiresAt * 1000).toISOString()}${decoded.expired ? '  (EXPIRED)' : ''}`)
+  console.log(`Room:       ${decoded.payload?.room_id || '(any)'}`)
+  console.log(`Privileges: ${privileges}`)
+  console.log(`Streams:    ${decoded.payload?.stream_id_list?.join(', ') || '(any)'}`)
+
+  const appId = process.env.ZEGO_APP_ID
+  if (appId && Number(appId) !== decoded.appId) {
+    console.log(`Warning:    token app ID does not match ZEGO_APP_ID (${appId})`)
+  }
+}
+
+function selftest(): boolean {
+  let passed = true
+
+  KNOWN_ANSWERS.forEach((vector, index) => {
+    const token = generateToken04(vector.appId, vector.userId, vector.secret, vector.ttl, vector.payload, vector.overrides)
+    const decoded = decodeToken04(vector.token, vector.secret, vector.overrides.now)
+    const checks: [string, boolean][] = [
+      ['generate matches reference', token === vector.token],
+      ['decode app id', decoded.appId === vector.appId],
+      ['decode user id', decoded.userId === vector.userId],
+      ['decode expiry', decoded.expiresAt === vector.overrides.now / 1000 + vector.ttl],
+      ['decode payload', decoded.rawPayload === (typeof vector.payload === 'string' ? vector.payload : JSON.stringify(vector.payload))]
+    ]
+
+    let wrongSecretRejected = false
+    try {
+      decodeToken04(vector.token, vector.secret.split('').reverse().join(''))
+    } catch (error) {
+      wrongSecretRejected = error instanceof TokenError
+    }
+    checks.push(['wrong secret rejected', wrongSecretRejected])
+
+    for (const [name, ok] of checks) {
+      console.log(`${ok ? 'ok  ' : 'FAIL'} vector ${index + 1}: ${name}`)
+      passed &&= ok
+    }
+  })
+
+  return passed
+}
+
+const [command, ...args] = process.argv.slice(2)
+
+try {
+  switch (command) {
+    case 'decode':
+      if (!args[0]) throw new Error('Usage: token decode <token>')
+      describe(args[0], requireEnv('ZEGO_SERVER_SECRET'))
+      break
+    case 'generate': {
+      const [userId, roomId, ttl] = args
+      if (!userId || !roomId) throw new Error('Usage: token generate <userId> <roomId> [ttlSeconds]')
+      const token = generateToken04(
+        parseInt(requireEnv('ZEGO_APP_ID'), 10),
+        userId,
+        requireEnv('ZEGO_SERVER_SECRET'),
+        ttl ? parseInt(ttl, 10) : 3600,
+        { room_id: roomId, privilege: { 1: 1, 2: 1 }, stream_id_list: [`${userId}_stream`] }
+      )
+      console.log(token)
+      break
+    }
+    case 'selftest':
+      process.exit(selftest() ? 0 : 1)
+      break
+    default:
+      console.error('Usage: token <decode|generate|selftest> ...')
+      process.exit(1)
+  }
+} catch (error: any) {
+  console.error(error instanceof TokenError ? `${error.message} (code ${error.code})` : error.message)
+  process.exit(1)
+}
@@ -0,0 +1,185 @@
+import crypto from 'crypto'
+
+// ZEGO token04: "04" + base64(expire:int64 | ivLength:uint16 | iv | cipherLength:uint16 |
+// AES-GCM(JSON token info) + 16-byte tag | mode:uint8), all big-endian. The server
+// secret (32 ASCII characters) is the AES-256 key.
+
+const VERSION = '04'
+const AES_GCM_MODE = 1
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+export enum TokenPrivilege {
+  Login = 1,
+  Publish = 2
+}
+
+// Room-scoped ("strict") tokens. 1 grants a privilege, 0 withholds it; a null
+// stream_id_list allows publishing any stream id.
+export interface TokenPayload {
+  room_id: string
+  privilege: Record<TokenPrivilege, 0 | 1>
+  stream_id_list: string[] | null
+}
+
+interface TokenInfo {
+  app_id: number
+  user_id: string
+  nonce: number
+  ctime: number
+  expire: number
+  payload: string
+}
+
+export enum TokenErrorCode {
+  AppIdInvalid = 1,
+  UserIdInvalid = 3,
+  SecretInvalid = 5,
+  EffectiveTimeInvalid = 6,
+  Malformed = 100,
+  DecryptionFailed = 101
+}
+
+export class TokenError extends Error {
+  constructor(readonly code: TokenErrorCode, message: string) {
+    super(message)
+    this.name = 'TokenError'
+  }
+}
+
+// Fixed inputs for reproducible tokens (known-answer checks); omit in production.
+export interface TokenGenerationOverrides {
+  now?: number
+  nonce?: number
+  iv?: Buffer
+}
+
+export interface DecodedToken {
+  appId: number
+  userId: string
+  nonce: number
+  createdAt: number
+  expiresAt: number
+  expired: boolean
+  // Parsed payload; null when the token was issued without one
+  payload: TokenPayload | null
+  rawPayload: string
+}
+
+function assertSecret(secret: string): Buffer {
+  if (typeof secret !== 'string' || secret.length !== 32) {
+    throw new TokenError(TokenErrorCode.SecretInvalid, 'Server secret must be a 32 character string')
+  }
+  return Buffer.from(secret, 'utf8')
+}
+
+function randomInt32(): number {
+  return crypto.randomBytes(4).readInt32BE(0)
+}
+
+export function generateToken04(
+  appId: number,
+  userId: string,
+  secret: string,
+  effectiveTimeInSeconds: number,
+  payload?: TokenPayload | string,
+  overrides: TokenGenerationOverrides = {}
+): string {
+  if (!Number.isInteger(appId) || appId <= 0) {
+    throw new TokenError(TokenErrorCode.AppIdInvalid, 'App ID must be a positive integer')
+  }
+  if (!userId || typeof userId !== 'string' || userId.length > 64) {
+    throw new TokenError(TokenErrorCode.UserIdInvalid, 'User ID must be 1-64 characters')
+  }
+  const key = assertSecret(secret)
+  if (!(effectiveTimeInSeconds > 0)) {
+    throw new TokenError(TokenErrorCode.EffectiveTimeInvalid, 'Effective time must be positive')
+  }
+
+  const ctime = Math.floor((overrides.now ?? Date.now()) / 1000)
+  const info: TokenInfo = {
+    app_id: appId,
+    user_id: userId,
+    nonce: overrides.nonce ?? randomInt32(),
+    ctime,
+    expire: ctime + effectiveTimeInSeconds,
+    payload: typeof payload === 'string' ? payload : payload ? JSON.stringify(payload) : ''
+  }
+
+  const iv = overrides.iv ?? crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(info), 'utf8'), cipher.final(), cipher.getAuthTag()])
+
+  const header = Buffer.alloc(8 + 2)
+  header.writeBigInt64BE(BigInt(info.expire), 0)
+  header.writeUInt16BE(iv.length, 8)
+  const cipherLength = Buffer.alloc(2)
+  cipherLength.writeUInt16BE(encrypted.length, 0)
+
+  const packed = Buffer.concat([header, iv, cipherLength, encrypted, Buffer.from([AES_GCM_MODE])])
+  return VERSION + packed.toString('base64')
+}
+
+// Decrypts and checks a token. A wrong secret or any tampering fails the GCM tag check.
+export function decodeToken04(token: string, secret: string, now = Date.now()): DecodedToken {
+  const key = assertSecret(secret)
+
+  if (typeof token !== 'string' || !token.startsWith(VERSION)) {
+    throw new TokenError(TokenErrorCode.Malformed, `Not a token04 string (expected "${VERSION}" prefix)`)
+  }
+
+  const packed = Buffer.from(token.slice(VERSION.length), 'base64')
+  let offset = 0
+  const read = (length: number): Buffer => {
+    if (offset + length > packed.length) throw new TokenError(TokenErrorCode.Malformed, 'Token is truncated')
+    const slice = packed.subarray(offset, offset + length)
+    offset += length
+    return slice
+  }
+
+  const expire = Number(read(8).readBigInt64BE(0))
+  const iv = read(read(2).readUInt16BE(0))
+  const encrypted = read(read(2).readUInt16BE(0))
+  const mode = packed.length > offset ? read(1).readUInt8(0) : AES_GCM_MODE
+
+  if (mode !== AES_GCM_MODE) {
+    throw new TokenError(TokenErrorCode.Malformed, `Unsupported encryption mode ${mode} (only AES-GCM is supported)`)
+  }
+  if (encrypted.length <= AUTH_TAG_LENGTH) {
+    throw new TokenError(TokenErrorCode.Malformed, 'Encrypted section is too short')
+  }
+
+  let info: TokenInfo
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv)
+    decipher.setAuthTag(encrypted.subarray(encrypted.length - AUTH_TAG_LENGTH))
+    const plain = Buffer.concat([decipher.update(encrypted.subarray(0, encrypted.length - AUTH_TAG_LENGTH)), decipher.final()])
+    info = JSON.parse(plain.toString('utf8'))
+  } catch {
+    throw new TokenError(TokenErrorCode.DecryptionFailed, 'Decryption failed: wrong server secret or corrupted token')
+  }
+
+  if (info.expire !== expire) {
+    throw new TokenError(TokenErrorCode.Malformed, 'Expiry in the header does not match the encrypted body')
+  }
+
+  let payload: TokenPayload | null = null
+  if (info.payload) {
+    try {
+      payload = JSON.parse(info.payload)
+    } catch {
+      throw new TokenError(TokenErrorCode.Malformed, 'Payload is not valid JSON')
+    }
+  }
+
+  return {
+    appId: info.app_id,
+    userId: info.user_id,
+    nonce: info.nonce,
+    createdAt: info.ctime,
+    expiresAt: info.expire,
+    expired: info.expire * 1000 <= now,
+    payload,
+    rawPayload: info.payload
+  }
+}
@@ -0,0 +1,147 @@
+// Server-side tools for the LLM proxy. Tools are declared with a JSON-schema parameter object,
+// advertised to the model as OpenAI `tools`, and run here when the model calls them; the
+// results go back to the model before the final answer streams to ZEGO.
+
+export interface JsonSchema {
+  type?: string
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  enum?: unknown[]
+  items?: JsonSchema
+  [keyword: string]: unknown
+}
+
+export interface ToolContext {
+  agentId?: string
+  instanceId?: string
+  userId?: string
+  signal: AbortSignal
+}
+
+export interface ToolDefinition<Args = Record<string, unknown>> {
+  name: string
+  description: string
+  parameters: JsonSchema & { type: 'object' }
+  execute(args: Args, ctx: ToolContext): unknown | Promise<unknown>
+}
+
+// Tool call as the model streams it (OpenAI `tool_calls`), after its argument fragments are joined
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+// One executed call, kept for the session so clients can show what the agent looked up
+export interface ToolInvocation {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+  result?: unknown
+  error?: string
+  durationMs: number
+  round?: number
+  at: number
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ToolError'
+  }
+}
+
+// Checks the top-level argument object against the schema: required keys, known keys and primitive types.
+export function validateArguments(schema: JsonSchema, args: unknown): string | null {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) return 'arguments must be a JSON object'
+
+  const values = args as Record<string, unknown>
+  for (const key of schema.required ?? []) {
+    if (values[key] === undefined) return `missing required argument "${key}"`
+  }
+  for (const [key, value] of Object.entries(values)) {
+    const property = schema.properties?.[key]
+    if (!property) {
+      if (schema.additionalProperties === false) return `unknown argument "${key}"`
+      continue
+    }
+    const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value
+    const expected = property.type === 'integer' ? 'number' : property.type
+    if (expected && type !== expected) return `argument "${key}" must be of type ${property.type}`
+    if (property.type === 'integer' && !Number.isInteger(value)) return `argument "${key}" must be an integer`
+    if (property.enum && !property.enum.includes(value)) return `argument "${key}" must be one of ${property.enum.join(', ')}`
+  }
+  return null
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>()
+
+  constructor(private timeoutMs = 5000) {}
+
+  get size(): number {
+    return this.tools.size
+  }
+
+  register<Args>(tool: ToolDefinition<Args>): this {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) throw new Error(`Invalid tool name: ${tool.name}`)
+    if (this.tools.has(tool.name)) throw new Error(`Tool already registered: ${tool.name}`)
+    this.tools.set(tool.name, tool)
+    return this
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys())
+  }
+
+  // The `tools` field of a chat-completions request
+  definitions() {
+    return Array.from(this.tools.values()).map(tool => ({
+      type: 'function' as const,
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }))
+  }
+
+  // Never throws: failures are returned so the model can see them and answer anyway.
+  async execute(call: ToolCall, ctx: ToolContext): Promise<ToolInvocation> {
+    const startedAt = Date.now()
+    const invocation: ToolInvocation = { id: call.id, name: call.function.name, arguments: {}, durationMs: 0, at: startedAt }
+
+    try {
+      const tool = this.tools.get(call.function.name)
+      if (!tool) throw new ToolError(`Unknown tool "${call.function.name}"`)
+
+      try {
+        invocation.arguments = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {}
+      } catch {
+        throw new ToolError('arguments are not valid JSON')
+      }
+      const problem = validateArguments(tool.parameters, invocation.arguments)
+      if (problem) throw new ToolError(problem)
+
+      let timer: NodeJS.Timeout | undefined
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ToolError(`timed out after ${this.timeoutMs}ms`)), this.timeoutMs)
+      })
+      try {
+        invocation.result = await Promise.race([Promise.resolve(tool.execute(invocation.arguments, ctx)), timeout])
+      } finally {
+        clearTimeout(timer)
+      }
+    } catch (error: any) {
+      invocation.error = error instanceof ToolError ? error.message : `failed: ${error?.message ?? error}`
+    }
+
+    invocation.durationMs = Date.now() - startedAt
+    return invocation
+  }
+}
+
+// Content of the `tool` message that carries an invocation's outcome back to the model
+export function toolResultContent(invocation: ToolInvocation): string {
+  if (invocation.error) return JSON.stringify({ error: invocation.error })
+  return typeof invocation.result === 'string' ? invocation.result : JSON.stringify(invocation.result ?? null)
+}
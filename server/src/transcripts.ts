@@ -0,0 +1,268 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { logger } from './logger.js'
+import type { AgentCallbackEvent, LlmTurn, SessionRecord, Transcript, TranscriptQuery, TranscriptTurn } from './types.js'
+
+export interface TranscriptStore {
+  save(transcript: Transcript): Promise<void>
+  get(instanceId: string): Promise<Transcript | null>
+  list(query: TranscriptQuery): Promise<Transcript[]>
+  // Rejects when the store cannot currently accept writes
+  check(): Promise<void>
+}
+
+function matchesQuery(transcript: Transcript, query: TranscriptQuery): boolean {
+  if (query.userId && transcript.userId !== query.userId) return false
+  if (query.roomId && transcript.roomId !== query.roomId) return false
+  if (query.from !== undefined && transcript.startedAt < query.from) return false
+  if (query.to !== undefined && transcript.startedAt > query.to) return false
+  return true
+}
+
+export class MemoryTranscriptStore implements TranscriptStore {
+  private transcripts: Map<string, Transcript> = new Map()
+
+  async save(transcript: Transcript): Promise<void> {
+    this.transcripts.set(transcript.instanceId, structuredClone(transcript))
+  }
+
+  async get(instanceId: string): Promise<Transcript | null> {
+    return this.transcripts.get(instanceId) || null
+  }
+
+  async list(query: TranscriptQuery): Promise<Transcript[]> {
+    return Array.from(this.transcripts.values())
+      .filter(transcript => matchesQuery(transcript, query))
+      .sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  async check(): Promise<void> {}
+}
+
+export class JsonFileTranscriptStore implements TranscriptStore {
+  private writes: Map<string, Promise<void>> = new Map()
+
+  constructor(private dir: string) {}
+
+  async check(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.access(this.dir, fs.constants.W_OK)
+  }
+
+  private filePath(instanceId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(instanceId)}.json`)
+  }
+
+  save(transcript: Transcript): Promise<void> {
+    const content = JSON.stringify(transcript, null, 2)
+    const previous = this.writes.get(transcript.instanceId) || Promise.resolve()
+    const write = previous
+      .catch(() => {})
+      .then(() => this.writeFile(transcript.instanceId, content))
+      .finally(() => {
+        if (this.writes.get(transcript.instanceId) === write) {
+          this.writes.delete(transcript.instanceId)
+        }
+      })
+
+    this.writes.set(transcript.instanceId, write)
+    return write
+  }
+
+  private async writeFile(instanceId: string, content: string): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const target = this.filePath(instanceId)
+    const temp = `${target}.tmp`
+    await fs.writeFile(temp, content)
+    await fs.rename(temp, target)
+  }
+
+  async get(instanceId: string): Promise<Transcript | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(instanceId), 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async list(query: TranscriptQuery): Promise<Transcript[]> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.dir)
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+
+    const transcripts: Transcript[] = []
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const transcript: Transcript = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8'))
+        if (matchesQuery(transcript, query)) transcripts.push(transcript)
+      } catch (error) {
+        logger.warn('Skipping unreadable transcript', { file, error })
+      }
+    }
+
+    return transcripts.sort((a, b) => b.startedAt - a.startedAt)
+  }
+}
+
+export function createTranscriptStore(kind: string, dataDir: string): TranscriptStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryTranscriptStore()
+    case 'json':
+      return new JsonFileTranscriptStore(path.join(dataDir, 'transcripts'))
+    default:
+      throw new Error(`Unknown transcript store: ${kind}`)
+  }
+}
+
+interface ActiveTranscript {
+  transcript: Transcript
+  pendingAnswers: Map<string, { text: string; timestamp: number }>
+}
+
+export class TranscriptRecorder {
+  private active: Map<string, ActiveTranscript> = new Map()
+
+  constructor(private store: TranscriptStore) {}
+
+  begin(session: SessionRecord): void {
+    this.active.set(session.instanceId, {
+      transcript: {
+        instanceId: session.instanceId,
+        agentId: session.agentId,
+        roomId: session.roomId,
+        userId: session.userId,
+        startedAt: session.startedAt,
+        turns: []
+      },
+      pendingAnswers: new Map()
+    })
+    this.persist(session.instanceId)
+  }
+
+  handleEvent(event: AgentCallbackEvent): void {
+    const entry = this.active.get(event.AgentInstanceId)
+    if (!entry) return
+
+    switch (event.Event) {
+      case 'ASRResult':
+        if (event.Data.EndFlag && event.Data.Text.trim()) {
+          this.addTurn(entry, {
+            messageId: event.Data.MessageId || `asr_${event.Sequence}`,
+            role: 'user',
+            source: 'voice',
+            text: event.Data.Text.trim(),
+            timestamp: event.Timestamp
+          })
+        }
+        break
+      case 'LLMResult': {
+        const messageId = event.Data.MessageId || `llm_${event.Sequence}`
+        const pending = entry.pendingAnswers.get(messageId) || { text: '', timestamp: event.Timestamp }
+        pending.text += event.Data.Text
+
+        if (event.Data.EndFlag) {
+          entry.pendingAnswers.delete(messageId)
+          this.addAnswer(entry, messageId, pending, false)
+        } else {
+          entry.pendingAnswers.set(messageId, pending)
+        }
+        break
+      }
+      case 'Interrupted':
+        this.flushAnswers(entry, true)
+        break
+    }
+  }
+
+  addUserText(instanceId: string, text: string): void {
+    const entry = this.active.get(instanceId)
+    if (!entry) return
+
+    this.addTurn(entry, {
+      messageId: `text_${Date.now()}`,
+      role: 'user',
+      source: 'text',
+      text,
+      timestamp: Date.now()
+    })
+  }
+
+  // Fixed text the agent was told to speak, bypassing the LLM
+  addAgentSpeech(instanceId: string, text: string): void {
+    const entry = this.active.get(instanceId)
+    if (!entry) return
+
+    this.addTurn(entry, {
+      messageId: `tts_${Date.now()}`,
+      role: 'assistant',
+      source: 'tts',
+      text,
+      timestamp: Date.now()
+    })
+  }
+
+  // Which provider answered one of the session's LLM proxy requests
+  addLlmTurn(instanceId: string, turn: LlmTurn): void {
+    const entry = this.active.get(instanceId)
+    if (!entry) return
+
+    entry.transcript.llmTurns = [...(entry.transcript.llmTurns ?? []), turn]
+    this.persist(instanceId)
+  }
+
+  // The live transcript of a running session, else the saved one
+  async get(instanceId: string): Promise<Transcript | null> {
+    return this.active.get(instanceId)?.transcript ?? this.store.get(instanceId)
+  }
+
+  async end(instanceId: string): Promise<Transcript | null> {
+    const entry = this.active.get(instanceId)
+    if (!entry) return null
+
+    this.flushAnswers(entry, true)
+    entry.transcript.endedAt = Date.now()
+    this.active.delete(instanceId)
+    await this.store.save(entry.transcript)
+    return entry.transcript
+  }
+
+  private addAnswer(entry: ActiveTranscript, messageId: string, pending: { text: string; timestamp: number }, interrupted: boolean): void {
+    if (!pending.text.trim()) return
+
+    this.addTurn(entry, {
+      messageId,
+      role: 'assistant',
+      source: 'llm',
+      text: pending.text,
+      timestamp: pending.timestamp,
+      ...(interrupted && { interrupted: true })
+    })
+  }
+
+  private flushAnswers(entry: ActiveTranscript, interrupted: boolean): void {
+    for (const [messageId, pending] of entry.pendingAnswers) {
+      this.addAnswer(entry, messageId, pending, interrupted)
+    }
+    entry.pendingAnswers.clear()
+  }
+
+  private addTurn(entry: ActiveTranscript, turn: TranscriptTurn): void {
+    entry.transcript.turns.push(turn)
+    this.persist(entry.transcript.instanceId)
+  }
+
+  private persist(instanceId: string): void {
+    const entry = this.active.get(instanceId)
+    if (!entry) return
+
+    this.store.save(entry.transcript).catch(error => {
+      logger.error('Failed to save transcript', { instanceId, error })
+    })
+  }
+}
@@ -21,11 +21,11 @@ export interface ZegoSignature extends ZegoSignatureParams {
   Signature: string
 }
 
-export interface ZegoResponse {
+export interface ZegoResponse<T = any> {
   Code: number
   Message: string
   RequestId: string
-  Data?: any
+  Data?: T
 }
 
 export interface LLMConfig {
@@ -38,14 +38,25 @@ export interface LLMConfig {
   Params: { max_tokens: number }
 }
 
+export interface TTSFilterText {
+  BeginCharacters: string
+  EndCharacters: string
+}
+
 export interface TTSConfig {
   Vendor: string
-  Url: string
+  Url?: string
   Params: {
-    app: { api_key: string }
-    voice: string
-    encoding: string
+    // Vendor credentials; api_key plus whatever else the TTS vendor needs
+    app: { api_key: string; [field: string]: unknown }
+    payload?: {
+      model: string
+      parameters: { voice: string; speed: number; volume: number }
+    }
+    voice?: string
+    encoding?: string
   }
+  FilterText?: TTSFilterText[]
 }
 
 export interface ASRConfig {
@@ -54,19 +65,61 @@ export interface ASRConfig {
   PauseInterval: number
 }
 
+// A provider from LLM_PROVIDERS (or the built-in "dashscope") and, optionally, the model to ask it for
+export interface LlmRoute {
+  Provider: string
+  Model?: string
+}
+
+// How the LLM proxy picks a provider for the agent. Without Primary the agent's own LLM Url is used.
+// Languages maps a language code (zh, en, ja, ...) of the user's message to the route tried first for it.
+export interface LlmRouting {
+  Primary?: LlmRoute
+  Fallbacks?: LlmRoute[]
+  Languages?: Record<string, LlmRoute>
+}
+
 export interface AgentConfig {
   AgentId: string
   Name: string
   LLM: LLMConfig
   TTS: TTSConfig
   ASR: ASRConfig
+  // Only used by our LLM proxy; never sent to ZEGO
+  Routing?: LlmRouting
+}
+
+export interface AgentProfile extends AgentConfig {
+  Registered: boolean
+  // ZEGO AppID the agent was registered under; Registered only holds for that AppID
+  RegisteredAppId?: string
+  CreatedAt: number
+  UpdatedAt: number
+}
+
+export interface AgentProfileInput {
+  AgentId?: string
+  Name?: string
+  LLM?: Partial<LLMConfig>
+  TTS?: Partial<TTSConfig>
+  ASR?: Partial<ASRConfig>
+  // null removes the agent's routing
+  Routing?: LlmRouting | null
+}
+
+export interface ZegoHistoryMessage {
+  Role: 'user' | 'assistant'
+  Content: string
 }
 
 export interface InstanceConfig {
   AgentId: string
   UserId: string
-  RTC: { RoomId: string; StreamId: string }
-  MessageHistory: { SyncMode: number; Messages: any[]; WindowSize: number }
+  RTC: { RoomId: string; AgentUserId: string; AgentStreamId: string; UserStreamId: string }
+  LLM?: Partial<LLMConfig>
+  TTS?: Partial<TTSConfig>
+  ASR?: Partial<ASRConfig>
+  MessageHistory: { SyncMode: number; Messages: ZegoHistoryMessage[]; WindowSize: number }
   CallbackConfig: {
     ASRResult: number
     LLMResult: number
@@ -78,11 +131,224 @@ export interface InstanceConfig {
   AdvancedConfig: { InterruptMode: number }
 }
 
-export interface StartSessionRequest { room_id: string; user_id: string }
+export type RegisterAgentRequest = AgentConfig
+export type RegisterAgentResponse = ZegoResponse<undefined>
+
+export type UpdateAgentRequest = Partial<AgentConfig> & { AgentId: string }
+export type UpdateAgentResponse = ZegoResponse<undefined>
+
+export interface UnregisterAgentRequest { AgentId: string }
+export type UnregisterAgentResponse = ZegoResponse<undefined>
+
+export interface QueryAgentsRequest { Offset?: number; Limit?: number }
+export interface QueryAgentsResponse extends ZegoResponse {
+  Data: { Total: number; Agents: AgentConfig[] }
+}
+
+export type CreateAgentInstanceRequest = InstanceConfig
+export interface CreateAgentInstanceResponse extends ZegoResponse {
+  Data: { AgentInstanceId: string }
+}
+
+export interface UpdateAgentInstanceRequest {
+  AgentInstanceId: string
+  LLM?: Partial<LLMConfig>
+  TTS?: Partial<TTSConfig>
+  ASR?: Partial<ASRConfig>
+}
+export type UpdateAgentInstanceResponse = ZegoResponse<undefined>
+
+export interface DeleteAgentInstanceRequest { AgentInstanceId: string }
+export type DeleteAgentInstanceResponse = ZegoResponse<undefined>
+
+export interface QueryAgentInstanceStatusRequest { AgentInstanceId: string }
+export interface QueryAgentInstanceStatusResponse extends ZegoResponse {
+  Data: {
+    AgentInstanceId: string
+    AgentId?: string
+    RoomId?: string
+    UserId?: string
+    Status: number
+    CreatedTimestamp?: number
+  }
+}
+
+export interface SendAgentInstanceLLMRequest {
+  AgentInstanceId: string
+  Text: string
+  AddQuestionToHistory?: boolean
+  AddAnswerToHistory?: boolean
+}
+export type SendAgentInstanceLLMResponse = ZegoResponse<undefined>
+
+export interface SendAgentInstanceTTSRequest {
+  AgentInstanceId: string
+  Text: string
+  AddHistory?: boolean
+  // 0 interrupts whatever the agent is saying; 1 waits until it finishes
+  InterruptMode?: number
+}
+export type SendAgentInstanceTTSResponse = ZegoResponse<undefined>
+
+export interface InterruptAgentInstanceRequest { AgentInstanceId: string }
+export type InterruptAgentInstanceResponse = ZegoResponse<undefined>
+
+export interface SessionRecord {
+  instanceId: string
+  agentId: string
+  roomId: string
+  userId: string
+  userStreamId: string
+  agentUserId: string
+  agentStreamId: string
+  clientIp?: string
+  settings?: SessionSettings
+  // Effective system prompt the instance started with (agent prompt plus memory block)
+  systemPrompt?: string
+  startedAt: number
+  lastActivityAt: number
+}
+
+// Live overrides for one session, layered over the agent profile via UpdateAgentInstance
+export interface SessionSettings {
+  voice?: string
+  speed?: number
+  volume?: number
+  temperature?: number
+  systemPromptAddendum?: string
+}
+
+export interface TranscriptTurn {
+  messageId: string
+  role: 'user' | 'assistant'
+  source: 'voice' | 'text' | 'llm' | 'tts'
+  text: string
+  timestamp: number
+  interrupted?: boolean
+}
+
+export interface Transcript {
+  instanceId: string
+  agentId: string
+  roomId: string
+  userId: string
+  startedAt: number
+  endedAt?: number
+  turns: TranscriptTurn[]
+  // Requests the agent made through the LLM proxy; absent from transcripts saved before it existed
+  llmTurns?: LlmTurn[]
+}
+
+// A target that failed before its first chunk, after which the next fallback was tried
+export interface UpstreamFailure {
+  provider?: string
+  model?: string
+  reason: 'error' | 'slow'
+  error: string
+  durationMs: number
+}
+
+// What served one proxied request, kept for the session so providers can be compared
+export interface LlmTurn {
+  requestId: string
+  provider?: string
+  model: string
+  language?: string
+  round?: number
+  // From the call to the provider that answered, so failed attempts before it do not count
+  firstChunkMs?: number
+  durationMs: number
+  failovers: UpstreamFailure[]
+  error?: string
+  at: number
+}
+
+export interface TranscriptQuery {
+  userId?: string
+  roomId?: string
+  from?: number
+  to?: number
+}
+
+// Long-term memory: durable facts about a user and summaries of their past conversations
+export interface MemoryEntry {
+  id: string
+  userId: string
+  kind: 'fact' | 'summary'
+  text: string
+  topics: string[]
+  // 'auto' entries were extracted when a session ended; 'user' entries were written or edited by the user
+  source: 'auto' | 'user'
+  instanceId?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// Knowledge base: uploaded reference documents the agent answers from (/api/kb)
+export type KbFormat = 'markdown' | 'text' | 'pdf-text'
+
+export interface KbDocument {
+  id: string
+  title: string
+  format: KbFormat
+  // Limits the document to one agent; unset documents serve every agent
+  agentId?: string
+  characters: number
+  chunks: number
+  embedded: boolean
+  createdAt: number
+}
+
+// A knowledge-base passage an answer cites as [n]
+export interface KbCitation {
+  id: string
+  marker: number
+  documentId: string
+  title: string
+  heading?: string
+  snippet: string
+  round?: number
+  at: number
+}
+
+export interface UsageRecord {
+  instanceId: string
+  agentId: string
+  userId: string
+  roomId: string
+  startedAt: number
+  endedAt?: number
+  // Wall clock from CreateAgentInstance to DeleteAgentInstance (up to now while active)
+  durationMs: number
+  llmTurns: number
+  ttsCharacters: number
+  asrSeconds: number
+  textMessages: number
+}
+
+export interface UsageQuery {
+  userId?: string
+  agentId?: string
+  from?: number
+  to?: number
+}
+
+export interface StartSessionRequest { room_id: string; user_id: string; user_stream_id?: string; agent_id?: string }
 export interface SendMessageRequest { agent_instance_id: string; message: string }
 export interface StopSessionRequest { agent_instance_id: string }
 
-export interface TTSRequest { text: string; voice?: string; encoding?: string }
+// null resets a setting to the agent's default
+export interface UpdateSessionRequest {
+  voice?: string | null
+  speed?: number | null
+  volume?: number | null
+  temperature?: number | null
+  system_prompt_addendum?: string | null
+}
+
+export type SpeakMode = 'interrupt' | 'queue'
+
+export interface TTSRequest { text: string; mode?: SpeakMode; add_to_history?: boolean }
 
 export interface CallbackData {
   Event: string
@@ -93,6 +359,45 @@ export interface CallbackData {
   RoomId?: string
   Sequence?: number
   Timestamp?: number
+  Nonce?: string
+  Signature?: string
+}
+
+export type CallbackEventType =
+  | 'ASRResult'
+  | 'LLMResult'
+  | 'Exception'
+  | 'Interrupted'
+  | 'UserSpeakAction'
+  | 'AgentSpeakAction'
+
+interface CallbackEventBase<E extends CallbackEventType, D> extends Omit<CallbackData, 'Event' | 'Data'> {
+  Event: E
+  Data: D
+  AgentInstanceId: string
+  Sequence: number
+  Timestamp: number
 }
 
-export interface TokenResponse { token: string }
\ No newline at end of file
+export type ASRResultEvent = CallbackEventBase<'ASRResult', { Text: string; MessageId: string; EndFlag: boolean }>
+export type LLMResultEvent = CallbackEventBase<'LLMResult', { Text: string; MessageId: string; EndFlag: boolean }>
+export type ExceptionEvent = CallbackEventBase<'Exception', { Code: number; Message: string }>
+export type InterruptedEvent = CallbackEventBase<'Interrupted', { MessageId?: string }>
+export type UserSpeakActionEvent = CallbackEventBase<'UserSpeakAction', { Action: number }>
+export type AgentSpeakActionEvent = CallbackEventBase<'AgentSpeakAction', { Action: number }>
+
+export type AgentCallbackEvent =
+  | ASRResultEvent
+  | LLMResultEvent
+  | ExceptionEvent
+  | InterruptedEvent
+  | UserSpeakActionEvent
+  | AgentSpeakActionEvent
+
+export interface TokenResponse {
+  token: string
+  roomId: string
+  streamIds: string[]
+  // Unix seconds
+  expiresAt: number
+}
\ No newline at end of file
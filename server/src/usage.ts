@@ -0,0 +1,284 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { logger } from './logger.js'
+import type { AgentCallbackEvent, SessionRecord, UsageQuery, UsageRecord } from './types.js'
+
+export interface UsageStore {
+  save(record: UsageRecord): Promise<void>
+  list(query: UsageQuery): Promise<UsageRecord[]>
+}
+
+function matchesQuery(record: UsageRecord, query: UsageQuery): boolean {
+  if (query.userId && record.userId !== query.userId) return false
+  if (query.agentId && record.agentId !== query.agentId) return false
+  if (query.from !== undefined && record.startedAt < query.from) return false
+  if (query.to !== undefined && record.startedAt > query.to) return false
+  return true
+}
+
+export class MemoryUsageStore implements UsageStore {
+  private records: Map<string, UsageRecord> = new Map()
+
+  async save(record: UsageRecord): Promise<void> {
+    this.records.set(record.instanceId, { ...record })
+  }
+
+  async list(query: UsageQuery): Promise<UsageRecord[]> {
+    return Array.from(this.records.values()).filter(record => matchesQuery(record, query))
+  }
+}
+
+export class JsonFileUsageStore implements UsageStore {
+  private writes: Map<string, Promise<void>> = new Map()
+
+  constructor(private dir: string) {}
+
+  private filePath(instanceId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(instanceId)}.json`)
+  }
+
+  save(record: UsageRecord): Promise<void> {
+    const content = JSON.stringify(record, null, 2)
+    const previous = this.writes.get(record.instanceId) || Promise.resolve()
+    const write = previous
+      .catch(() => {})
+      .then(async () => {
+        await fs.mkdir(this.dir, { recursive: true })
+        const target = this.filePath(record.instanceId)
+        await fs.writeFile(`${target}.tmp`, content)
+        await fs.rename(`${target}.tmp`, target)
+      })
+      .finally(() => {
+        if (this.writes.get(record.instanceId) === write) {
+          this.writes.delete(record.instanceId)
+        }
+      })
+
+    this.writes.set(record.instanceId, write)
+    return write
+  }
+
+  async list(query: UsageQuery): Promise<UsageRecord[]> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.dir)
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+
+    const records: UsageRecord[] = []
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const record: UsageRecord = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8'))
+        if (matchesQuery(record, query)) records.push(record)
+      } catch (error) {
+        logger.warn('Skipping unreadable usage record', { file, error })
+      }
+    }
+    return records
+  }
+}
+
+export function createUsageStore(kind: string, dataDir: string): UsageStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryUsageStore()
+    case 'json':
+      return new JsonFileUsageStore(path.join(dataDir, 'usage'))
+    default:
+      throw new Error(`Unknown usage store: ${kind}`)
+  }
+}
+
+// Unit prices in `currency`. Anything left at 0 is free in the estimate.
+export interface PriceTable {
+  currency: string
+  perAgentMinute: number
+  perLlmTurn: number
+  perThousandTtsCharacters: number
+  perAsrMinute: number
+  perTextMessage: number
+}
+
+export function estimateCost(record: UsageRecord, prices: PriceTable): number {
+  const cost = (record.durationMs / 60000) * prices.perAgentMinute
+    + record.llmTurns * prices.perLlmTurn
+    + (record.ttsCharacters / 1000) * prices.perThousandTtsCharacters
+    + (record.asrSeconds / 60) * prices.perAsrMinute
+    + record.textMessages * prices.perTextMessage
+  return Math.round(cost * 1e6) / 1e6
+}
+
+// UserSpeakAction / AgentSpeakAction: 1 = started speaking, 2 = stopped
+const SPEAK_START = 1
+const SPEAK_END = 2
+
+interface ActiveUsage {
+  record: UsageRecord
+  userSpeakingSince: number | null
+  answeredMessages: Set<string>
+}
+
+export class UsageMeter {
+  private active: Map<string, ActiveUsage> = new Map()
+
+  constructor(private store: UsageStore) {}
+
+  begin(session: SessionRecord): void {
+    this.active.set(session.instanceId, {
+      record: {
+        instanceId: session.instanceId,
+        agentId: session.agentId,
+        userId: session.userId,
+        roomId: session.roomId,
+        startedAt: session.startedAt,
+        durationMs: 0,
+        llmTurns: 0,
+        ttsCharacters: 0,
+        asrSeconds: 0,
+        textMessages: 0
+      },
+      userSpeakingSince: null,
+      answeredMessages: new Set()
+    })
+    this.persist(session.instanceId)
+  }
+
+  handleEvent(event: AgentCallbackEvent): void {
+    const entry = this.active.get(event.AgentInstanceId)
+    if (!entry) return
+
+    switch (event.Event) {
+      case 'LLMResult': {
+        // Every streamed LLM chunk is spoken, so its text is what TTS bills for
+        entry.record.ttsCharacters += event.Data.Text.length
+
+        const messageId = event.Data.MessageId || `llm_${event.Sequence}`
+        if (!entry.answeredMessages.has(messageId)) {
+          entry.answeredMessages.add(messageId)
+          entry.record.llmTurns++
+        }
+        break
+      }
+      case 'UserSpeakAction':
+        if (event.Data.Action === SPEAK_START) {
+          entry.userSpeakingSince = event.Timestamp
+        } else if (event.Data.Action === SPEAK_END && entry.userSpeakingSince !== null) {
+          this.addAsrTime(entry, event.Timestamp)
+        }
+        break
+    }
+  }
+
+  addTextMessage(instanceId: string): void {
+    const entry = this.active.get(instanceId)
+    if (entry) entry.record.textMessages++
+  }
+
+  addSpokenText(instanceId: string, text: string): void {
+    const entry = this.active.get(instanceId)
+    if (entry) entry.record.ttsCharacters += text.length
+  }
+
+  async end(instanceId: string): Promise<UsageRecord | null> {
+    const entry = this.active.get(instanceId)
+    if (!entry) return null
+
+    const now = Date.now()
+    if (entry.userSpeakingSince !== null) this.addAsrTime(entry, now)
+    entry.record.endedAt = now
+    entry.record.durationMs = now - entry.record.startedAt
+    this.active.delete(instanceId)
+    await this.store.save(entry.record)
+    return entry.record
+  }
+
+  // Finished sessions from the store plus live counters for sessions still running.
+  async list(query: UsageQuery): Promise<UsageRecord[]> {
+    const now = Date.now()
+    const live = Array.from(this.active.values())
+      .map(({ record }) => ({ ...record, durationMs: now - record.startedAt }))
+      .filter(record => matchesQuery(record, query))
+    const liveIds = new Set(live.map(record => record.instanceId))
+    const stored = (await this.store.list(query)).filter(record => !liveIds.has(record.instanceId))
+
+    return [...stored, ...live].sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  private addAsrTime(entry: ActiveUsage, until: number): void {
+    entry.record.asrSeconds += Math.max(until - (entry.userSpeakingSince ?? until), 0) / 1000
+    entry.userSpeakingSince = null
+  }
+
+  private persist(instanceId: string): void {
+    const entry = this.active.get(instanceId)
+    if (!entry) return
+
+    this.store.save(entry.record).catch(error => {
+      logger.error('Failed to save usage record', { instanceId, error })
+    })
+  }
+}
+
+export type UsageDimension = 'user' | 'agent' | 'day'
+
+export interface UsageSummary {
+  userId?: string
+  agentId?: string
+  day?: string
+  sessions: number
+  durationMs: number
+  llmTurns: number
+  ttsCharacters: number
+  asrSeconds: number
+  textMessages: number
+  estimatedCost: number
+}
+
+export function aggregateUsage(records: UsageRecord[], dimensions: UsageDimension[], prices: PriceTable): UsageSummary[] {
+  const groups: Map<string, UsageSummary> = new Map()
+
+  for (const record of records) {
+    const keys: Pick<UsageSummary, 'userId' | 'agentId' | 'day'> = {
+      ...(dimensions.includes('user') && { userId: record.userId }),
+      ...(dimensions.includes('agent') && { agentId: record.agentId }),
+      ...(dimensions.includes('day') && { day: new Date(record.startedAt).toISOString().slice(0, 10) })
+    }
+    const groupKey = JSON.stringify(keys)
+
+    let summary = groups.get(groupKey)
+    if (!summary) {
+      summary = { ...keys, sessions: 0, durationMs: 0, llmTurns: 0, ttsCharacters: 0, asrSeconds: 0, textMessages: 0, estimatedCost: 0 }
+      groups.set(groupKey, summary)
+    }
+
+    summary.sessions++
+    summary.durationMs += record.durationMs
+    summary.llmTurns += record.llmTurns
+    summary.ttsCharacters += record.ttsCharacters
+    summary.asrSeconds += record.asrSeconds
+    summary.textMessages += record.textMessages
+    summary.estimatedCost = Math.round((summary.estimatedCost + estimateCost(record, prices)) * 1e6) / 1e6
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    (b.day ?? '').localeCompare(a.day ?? '')
+    || (a.userId ?? '').localeCompare(b.userId ?? '')
+    || (a.agentId ?? '').localeCompare(b.agentId ?? ''))
+}
+
+function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value)
+  // Keep spreadsheet apps from evaluating user-controlled ids as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: object[], columns: string[]): string {
+  const lines = [columns.join(',')]
+  for (const row of rows) {
+    lines.push(columns.map(column => csvField((row as Record<string, unknown>)[column])).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
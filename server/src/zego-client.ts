@@ -0,0 +1,252 @@
+import axios from 'axios'
+import { generateZegoSignature } from './zego-signature.js'
+import { metrics } from './metrics.js'
+import { logger } from './logger.js'
+import { CircuitBreaker, CircuitOpenError, backoffDelay, sleep, type CircuitBreakerOptions, type RetryOptions } from './resilience.js'
+import type {
+  ZegoResponse,
+  RegisterAgentRequest,
+  RegisterAgentResponse,
+  UpdateAgentRequest,
+  UpdateAgentResponse,
+  UnregisterAgentRequest,
+  UnregisterAgentResponse,
+  QueryAgentsRequest,
+  QueryAgentsResponse,
+  CreateAgentInstanceRequest,
+  CreateAgentInstanceResponse,
+  UpdateAgentInstanceRequest,
+  UpdateAgentInstanceResponse,
+  DeleteAgentInstanceRequest,
+  DeleteAgentInstanceResponse,
+  QueryAgentInstanceStatusRequest,
+  QueryAgentInstanceStatusResponse,
+  SendAgentInstanceLLMRequest,
+  SendAgentInstanceLLMResponse,
+  SendAgentInstanceTTSRequest,
+  SendAgentInstanceTTSResponse,
+  InterruptAgentInstanceRequest,
+  InterruptAgentInstanceResponse
+} from './types.js'
+
+export interface ZegoClientOptions {
+  appId: string
+  serverSecret: string
+  baseUrl: string
+  timeoutMs?: number
+  actionTimeouts?: Record<string, number>
+  retry?: RetryOptions
+  retryableCodes?: number[]
+  breaker?: CircuitBreakerOptions
+}
+
+// Actions that leave ZEGO in the same state when repeated. CreateAgentInstance and the
+// Send* actions are excluded: a retry after a lost response would start a second
+// billable instance or make the agent speak twice.
+const IDEMPOTENT_ACTIONS = new Set([
+  'RegisterAgent',
+  'UpdateAgent',
+  'UnregisterAgent',
+  'QueryAgents',
+  'UpdateAgentInstance',
+  'DeleteAgentInstance',
+  'QueryAgentInstanceStatus',
+  'InterruptAgentInstance'
+])
+
+const DEFAULT_ACTION_TIMEOUTS: Record<string, number> = {
+  QueryAgents: 5000,
+  QueryAgentInstanceStatus: 5000,
+  InterruptAgentInstance: 5000,
+  CreateAgentInstance: 15000
+}
+
+const zegoRequestDuration = metrics.histogram({
+  name: 'zego_request_duration_seconds',
+  help: 'Latency of ZEGO AI Agent API calls, per attempt',
+  labelNames: ['action', 'code']
+})
+const zegoErrors = metrics.counter({
+  name: 'zego_request_errors_total',
+  help: 'Failed ZEGO AI Agent API calls by action and ZEGO Code (or transport error)',
+  labelNames: ['action', 'code']
+})
+
+const DEFAULT_RETRY: RetryOptions = { maxAttempts: 3, baseDelayMs: 200, maxDelayMs: 2000 }
+const DEFAULT_BREAKER: CircuitBreakerOptions = { failureThreshold: 5, resetTimeoutMs: 30000 }
+
+export class ZegoApiError extends Error {
+  readonly Code: number
+  readonly Message: string
+  readonly RequestId: string
+
+  constructor(readonly action: string, response: ZegoResponse) {
+    super(`${action} failed: ${response.Code} ${response.Message}`)
+    this.name = 'ZegoApiError'
+    this.Code = response.Code
+    this.Message = response.Message
+    this.RequestId = response.RequestId
+  }
+}
+
+export class ZegoClient {
+  readonly breaker: CircuitBreaker
+
+  constructor(private options: ZegoClientOptions) {
+    this.breaker = new CircuitBreaker(options.breaker ?? DEFAULT_BREAKER)
+  }
+
+  async request<T extends ZegoResponse>(action: string, body: object = {}): Promise<T> {
+    const retry = this.options.retry ?? DEFAULT_RETRY
+    const maxAttempts = IDEMPOTENT_ACTIONS.has(action) ? Math.max(retry.maxAttempts, 1) : 1
+
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.acquire()
+
+      try {
+        const data = await this.send<T>(action, body)
+        this.breaker.recordSuccess()
+        return data
+      } catch (error) {
+        const transient = this.isTransient(error)
+        if (transient) {
+          this.breaker.recordFailure(error)
+        } else {
+          this.breaker.recordSuccess()
+        }
+
+        if (!transient || attempt + 1 >= maxAttempts) throw error
+
+        const delay = backoffDelay(attempt, retry)
+        logger.warn('Retrying ZEGO action', { action, attempt: attempt + 2, maxAttempts, delayMs: delay })
+        await sleep(delay)
+      }
+    }
+  }
+
+  private isTransient(error: unknown): boolean {
+    if (error instanceof ZegoApiError) {
+      return (this.options.retryableCodes ?? []).includes(error.Code)
+    }
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status
+      return status === undefined || status >= 500 || status === 429
+    }
+    return false
+  }
+
+  private async send<T extends ZegoResponse>(action: string, body: object): Promise<T> {
+    const queryParams = generateZegoSignature(action, this.options.appId, this.options.serverSecret)
+    const queryString = Object.entries(queryParams)
+      .map(([k, v]) => `${k}=${encodeURIComponent(String(v))}`)
+      .join('&')
+
+    const url = `${this.options.baseUrl}?${queryString}`
+
+    const stopTimer = zegoRequestDuration.startTimer({ action })
+    let data: T
+    try {
+      const response = await axios.post<T>(url, body, {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: this.options.actionTimeouts?.[action]
+          ?? DEFAULT_ACTION_TIMEOUTS[action]
+          ?? this.options.timeoutMs
+          ?? 10000
+      })
+      data = response.data
+    } catch (error: any) {
+      // Transport failures have no ZEGO Code; label them by HTTP status or axios error code
+      const code = error.response ? `http_${error.response.status}` : (error.code || 'network').toLowerCase()
+      stopTimer({ code })
+      zegoErrors.inc({ action, code })
+      logger.error('ZEGO request failed', { action, code, httpStatus: error.response?.status, error: error.message })
+      throw error
+    }
+
+    const seconds = stopTimer({ code: data.Code })
+    if (data.Code !== 0) {
+      zegoErrors.inc({ action, code: data.Code })
+      logger.error('ZEGO API error', { action, code: data.Code, zegoMessage: data.Message, zegoRequestId: data.RequestId, durationMs: Math.round(seconds * 1000) })
+      throw new ZegoApiError(action, data)
+    }
+    logger.debug('ZEGO call', { action, zegoRequestId: data.RequestId, durationMs: Math.round(seconds * 1000) })
+    return data
+  }
+
+  registerAgent(body: RegisterAgentRequest): Promise<RegisterAgentResponse> {
+    return this.request('RegisterAgent', body)
+  }
+
+  updateAgent(body: UpdateAgentRequest): Promise<UpdateAgentResponse> {
+    return this.request('UpdateAgent', body)
+  }
+
+  unregisterAgent(body: UnregisterAgentRequest): Promise<UnregisterAgentResponse> {
+    return this.request('UnregisterAgent', body)
+  }
+
+  queryAgents(body: QueryAgentsRequest = {}): Promise<QueryAgentsResponse> {
+    return this.request('QueryAgents', body)
+  }
+
+  createAgentInstance(body: CreateAgentInstanceRequest): Promise<CreateAgentInstanceResponse> {
+    return this.request('CreateAgentInstance', body)
+  }
+
+  updateAgentInstance(body: UpdateAgentInstanceRequest): Promise<UpdateAgentInstanceResponse> {
+    return this.request('UpdateAgentInstance', body)
+  }
+
+  deleteAgentInstance(body: DeleteAgentInstanceRequest): Promise<DeleteAgentInstanceResponse> {
+    return this.request('DeleteAgentInstance', body)
+  }
+
+  queryAgentInstanceStatus(body: QueryAgentInstanceStatusRequest): Promise<QueryAgentInstanceStatusResponse> {
+    return this.request('QueryAgentInstanceStatus', body)
+  }
+
+  sendAgentInstanceLLM(body: SendAgentInstanceLLMRequest): Promise<SendAgentInstanceLLMResponse> {
+    return this.request('SendAgentInstanceLLM', body)
+  }
+
+  sendAgentInstanceTTS(body: SendAgentInstanceTTSRequest): Promise<SendAgentInstanceTTSResponse> {
+    return this.request('SendAgentInstanceTTS', body)
+  }
+
+  interruptAgentInstance(body: InterruptAgentInstanceRequest): Promise<InterruptAgentInstanceResponse> {
+    return this.request('InterruptAgentInstance', body)
+  }
+}
+
+// ZEGO rejections surface as 502 (the upstream refused), transport timeouts as 504,
+// and calls short-circuited by the breaker as 503.
+export function toHttpError(error: any, fallback: string): {
+  status: number
+  body: Record<string, unknown>
+  headers?: Record<string, string>
+} {
+  if (error instanceof CircuitOpenError) {
+    return {
+      status: 503,
+      body: { error: 'ZEGO API temporarily unavailable' },
+      headers: { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000) || 1) }
+    }
+  }
+
+  if (error instanceof ZegoApiError) {
+    return {
+      status: 502,
+      body: { error: error.Message || fallback, code: error.Code, requestId: error.RequestId }
+    }
+  }
+
+  if (axios.isAxiosError(error)) {
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+    return {
+      status: timedOut ? 504 : 502,
+      body: { error: timedOut ? 'ZEGO API timed out' : 'ZEGO API unreachable' }
+    }
+  }
+
+  return { status: 500, body: { error: error?.message || fallback } }
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto'
+import type { ZegoSignature } from './types.js'
+
+const MAX_CLOCK_SKEW_SECONDS = 600
+
+function signatureFor(appId: string, nonce: string, serverSecret: string, timestamp: number | string): string {
+  const signString = appId + nonce + serverSecret + timestamp
+  return crypto.createHash('md5').update(signString).digest('hex')
+}
+
+export function generateZegoSignature(action: string, appId: string, serverSecret: string): ZegoSignature {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const nonce = crypto.randomBytes(8).toString('hex')
+
+  return {
+    Action: action,
+    AppId: appId,
+    SignatureNonce: nonce,
+    SignatureVersion: '2.0',
+    Timestamp: timestamp,
+    Signature: signatureFor(appId, nonce, serverSecret, timestamp)
+  }
+}
+
+export function verifyZegoSignature(
+  params: Record<string, unknown>,
+  appId: string,
+  serverSecret: string
+): { valid: true } | { valid: false; reason: string } {
+  const { AppId, SignatureNonce, Timestamp, Signature } = params
+
+  if (String(AppId) !== appId) {
+    return { valid: false, reason: 'AppId mismatch' }
+  }
+  if (!SignatureNonce || !Timestamp || !Signature) {
+    return { valid: false, reason: 'Missing signature parameters' }
+  }
+
+  const timestamp = Number(Timestamp)
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > MAX_CLOCK_SKEW_SECONDS) {
+    return { valid: false, reason: 'Timestamp expired' }
+  }
+
+  const expected = signatureFor(appId, String(SignatureNonce), serverSecret, String(Timestamp))
+  if (expected !== String(Signature).toLowerCase()) {
+    return { valid: false, reason: 'Signature mismatch' }
+  }
+
+  return { valid: true }
+}